@@ -0,0 +1,111 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { BreakEvenAxis, BreakEvenResult } from '~/lib/break-even-calculator';
+import type { TaxationForm } from '~/lib/tax-calculator';
+
+interface BreakEvenChartProps {
+  result: BreakEvenResult;
+  onAxisChange: (axis: BreakEvenAxis) => void;
+}
+
+const FORM_LABELS: Record<TaxationForm, string> = {
+  ryczalt: 'Ryczałt',
+  liniowy: 'Liniowy 19%',
+  skala: 'Skala podatkowa',
+};
+
+const AXIS_LABELS: Record<BreakEvenAxis, string> = {
+  revenue: 'Roczny przychód',
+  costs: 'Roczne koszty stałe',
+};
+
+const formatPLN = (value: number) => Math.round(value).toLocaleString('pl-PL');
+
+export function BreakEvenChart({ result, onAxisChange }: BreakEvenChartProps) {
+  const data = result.points.map((point) => ({
+    value: Math.round(point.value),
+    [FORM_LABELS.ryczalt]: Math.round(point.netCashInHand.ryczalt),
+    [FORM_LABELS.liniowy]: Math.round(point.netCashInHand.liniowy),
+    [FORM_LABELS.skala]: Math.round(point.netCashInHand.skala),
+  }));
+
+  return (
+    <div className="w-full">
+      <div className="mb-4 flex gap-2">
+        {(Object.keys(AXIS_LABELS) as BreakEvenAxis[]).map((axis) => (
+          <button
+            key={axis}
+            onClick={() => onAxisChange(axis)}
+            className={`rounded-md px-4 py-1 text-sm font-semibold ${
+              result.axis === axis ? 'bg-blue-600 text-white' : 'border border-gray-600 hover:bg-gray-800'
+            }`}
+          >
+            {AXIS_LABELS[axis]}
+          </button>
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={360}>
+        <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-gray-700" />
+          <XAxis
+            dataKey="value"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(value) => `${Math.round(Number(value) / 1000)}k`}
+            className="text-sm"
+          />
+          <YAxis className="text-sm" />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#1f2937',
+              border: '1px solid #374151',
+              borderRadius: '0.5rem',
+            }}
+            labelFormatter={(value) => `${AXIS_LABELS[result.axis]}: ${formatPLN(Number(value))} PLN`}
+            formatter={(value) => `${Number(value).toLocaleString('pl-PL')} PLN`}
+          />
+          <Legend />
+          <ReferenceLine
+            x={Math.round(result.current.value)}
+            stroke="#e5e7eb"
+            strokeDasharray="4 4"
+            label={{ value: 'Obecnie', fill: '#e5e7eb', position: 'top' }}
+          />
+          <Line type="monotone" dataKey={FORM_LABELS.ryczalt} stroke="#f59e0b" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey={FORM_LABELS.liniowy} stroke="#3b82f6" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey={FORM_LABELS.skala} stroke="#10b981" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="mt-4 space-y-1 text-sm">
+        <p className="text-gray-400">
+          Obecnie ({formatPLN(result.current.value)} PLN) najkorzystniejsza forma:{' '}
+          <span className="font-semibold text-green-400">{FORM_LABELS[result.current.best]}</span>
+        </p>
+        {result.crossovers.length === 0 ? (
+          <p className="text-gray-400">W badanym zakresie kolejność form opodatkowania się nie zmienia.</p>
+        ) : (
+          <ul className="list-inside list-disc">
+            {result.crossovers.map((crossover) => (
+              <li key={`${crossover.winner}-${crossover.loser}-${crossover.value}`}>
+                Od {formatPLN(crossover.value)} PLN ({AXIS_LABELS[result.axis].toLowerCase()}){' '}
+                <span className="font-semibold">{FORM_LABELS[crossover.winner]}</span> korzystniejszy niż{' '}
+                {FORM_LABELS[crossover.loser]}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
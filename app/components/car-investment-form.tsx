@@ -1,5 +1,13 @@
-import { useState } from 'react';
-import type { EngineType, FinancingMethod, UsageType } from '~/lib/tax-calculator';
+import { useEffect, useState } from 'react';
+import {
+  TaxCalculator,
+  type EngineType,
+  type FinancingMethod,
+  type TaxYearConfigInput,
+  type UsageType,
+} from '~/lib/tax-calculator';
+import { LeasingCalculator, PRIVATE_RESALE_TAX_PERIOD_MONTHS, type LeaseEndDecision } from '~/lib/leasing-calculator';
+import { FINANCING_METHODS, type FinancingComparisonResult } from '~/lib/car-financing-calculator';
 
 export interface CarInvestmentData {
   name: string;
@@ -10,22 +18,40 @@ export interface CarInvestmentData {
   leasingInitialPaymentPercent?: number;
   leasingMonths?: number;
   leasingBuyoutPercent?: number;
+  leasingInterestRate?: number;
+  leasingMonthlyInstallment?: number;
+  leasingFees?: number;
+  leasingInsuranceMonthly?: number;
+  co2Emission?: number;
+  fuelMonthly?: number;
+  insuranceYearly?: number;
+  acInsuranceYearly?: number;
+  serviceYearly?: number;
+  tyresYearly?: number;
+  leaseEndDecision?: LeaseEndDecision;
+  resaleMonthsAfterBuyout?: number;
+  resalePriceNetto?: number;
   monthOfPurchase: number;
 }
 
 interface CarInvestmentFormProps {
   onSubmit: (data: CarInvestmentData) => void;
   onCancel: () => void;
+  onCompare?: (data: CarInvestmentData) => Promise<FinancingComparisonResult | null>;
+  taxYear: number;
+  initialData?: CarInvestmentData; // Existing investment opened for editing
 }
 
-const ENGINE_TYPE_LIMITS = {
-  combustion: 100_000,
-  hybrid_plugin: 150_000,
-  electric: 225_000,
+export const FINANCING_METHOD_LABELS: Record<FinancingMethod, string> = {
+  cash: 'Zakup gotówkowy',
+  leasing: 'Leasing operacyjny',
+  financial_leasing: 'Leasing finansowy',
+  loan: 'Kredyt',
 };
 
-export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps) {
-  const [car, setCar] = useState<CarInvestmentData>({
+export function CarInvestmentForm({ onSubmit, onCancel, onCompare, taxYear, initialData }: CarInvestmentFormProps) {
+  const [taxConfig, setTaxConfig] = useState<TaxYearConfigInput | undefined>(undefined);
+  const [car, setCar] = useState<CarInvestmentData>(initialData ?? {
     name: '',
     carPriceNetto: 120_000,
     engineType: 'combustion',
@@ -34,21 +60,71 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
     leasingInitialPaymentPercent: 10,
     leasingMonths: 48,
     leasingBuyoutPercent: 1,
+    leasingInterestRate: 0.075,
+    leasingFees: 0,
+    leasingInsuranceMonthly: 0,
+    fuelMonthly: 0,
+    insuranceYearly: 0,
+    acInsuranceYearly: 0,
+    serviceYearly: 0,
+    tyresYearly: 0,
     monthOfPurchase: 1,
   });
+  const [installmentFromOffer, setInstallmentFromOffer] = useState(initialData?.leasingMonthlyInstallment !== undefined);
+  const [comparison, setComparison] = useState<FinancingComparisonResult | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  // Limits and VAT rules come from the same tax year config the calculator uses
+  useEffect(() => {
+    fetch(`/api/tax-config/${taxYear}`)
+      .then((response) => (response.ok ? response.json() : undefined))
+      .then((data) => setTaxConfig(data as TaxYearConfigInput | undefined))
+      .catch((error) => console.error('Error loading tax config:', error));
+  }, [taxYear]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onSubmit(car);
   };
 
-  const limit = ENGINE_TYPE_LIMITS[car.engineType];
+  const handleCompare = async () => {
+    if (!onCompare) return;
+
+    setIsComparing(true);
+    try {
+      setComparison(await onCompare(car));
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const limit = TaxCalculator.getCarDepreciationLimit(car, taxConfig);
   const exceedsLimit = car.carPriceNetto > limit;
+  const engineLimit = (engineType: EngineType) =>
+    TaxCalculator.getCarDepreciationLimit({ engineType }, taxConfig).toLocaleString('pl-PL');
+  const co2Threshold = taxConfig?.carLowEmissionCo2Threshold ?? 50;
+  const mixedVatPercent = ((taxConfig?.carVatMixedDeduction ?? 0.5) * 100).toFixed(0);
+
+  // Annuity preview of the leasing or loan offer, a loan is repaid in full
+  const isLoan = car.financingMethod === 'loan';
+  const leasingFinanced = car.carPriceNetto * (1 - (car.leasingInitialPaymentPercent || 0) / 100);
+  const leasingResidual = isLoan ? 0 : (car.carPriceNetto * (car.leasingBuyoutPercent || 0)) / 100;
+  const leasingMonths = car.leasingMonths || 48;
+  const offerInstallment = LeasingCalculator.getOfferInstallment(car.leasingMonthlyInstallment);
+  const leasingRate = installmentFromOffer
+    ? offerInstallment
+      ? LeasingCalculator.calculateImpliedRate(leasingFinanced, leasingResidual, leasingMonths, offerInstallment)
+      : 0
+    : car.leasingInterestRate || 0;
+  const leasingInstallment = installmentFromOffer
+    ? offerInstallment || 0
+    : LeasingCalculator.calculateInstallment(leasingFinanced, leasingResidual, leasingMonths, leasingRate);
+  const leasingTotalInterest = leasingInstallment * leasingMonths - (leasingFinanced - leasingResidual);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70">
       <div className="max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-lg border border-gray-700 bg-gray-900 p-6">
-        <h2 className="mb-6 text-2xl font-bold">Dodaj inwestycję samochodową na 2026</h2>
+        <h2 className="mb-6 text-2xl font-bold">{initialData ? 'Edytuj' : 'Dodaj'} inwestycję samochodową na {taxYear}</h2>
 
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Car Name */}
@@ -66,7 +142,7 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
 
           {/* Engine Type */}
           <div>
-            <label className="mb-2 block text-sm font-medium">Typ napędu (limity 2026)</label>
+            <label className="mb-2 block text-sm font-medium">Typ napędu (limity {taxYear})</label>
             <div className="space-y-2">
               <label className="flex items-center rounded-md border border-gray-700 p-3 hover:bg-gray-800">
                 <input
@@ -77,7 +153,7 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
                 />
                 <div>
                   <div className="font-medium">Spalinowy/Hybryda standardowa</div>
-                  <div className="text-xs text-gray-400">Limit odliczenia: 100 000 PLN</div>
+                  <div className="text-xs text-gray-400">Limit odliczenia: {engineLimit('combustion')} PLN</div>
                 </div>
               </label>
               <label className="flex items-center rounded-md border border-gray-700 p-3 hover:bg-gray-800">
@@ -89,7 +165,9 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
                 />
                 <div>
                   <div className="font-medium">Hybryda plug-in (Eco)</div>
-                  <div className="text-xs text-gray-400">Limit odliczenia: 150 000 PLN</div>
+                  <div className="text-xs text-gray-400">
+                    Limit odliczenia: {engineLimit('hybrid_plugin')} PLN (emisja CO₂ poniżej {co2Threshold} g/km)
+                  </div>
                 </div>
               </label>
               <label className="flex items-center rounded-md border border-gray-700 p-3 hover:bg-gray-800">
@@ -101,12 +179,34 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
                 />
                 <div>
                   <div className="font-medium">Elektryczny (BEV)</div>
-                  <div className="text-xs text-gray-400">Limit odliczenia: 225 000 PLN</div>
+                  <div className="text-xs text-gray-400">Limit odliczenia: {engineLimit('electric')} PLN</div>
                 </div>
               </label>
             </div>
           </div>
 
+          {/* CO2 Emission */}
+          {car.engineType === 'hybrid_plugin' && (
+            <div>
+              <label className="mb-2 block text-sm font-medium">Emisja CO₂ (g/km, WLTP)</label>
+              <input
+                type="number"
+                value={car.co2Emission ?? ''}
+                onChange={(e) =>
+                  setCar({ ...car, co2Emission: e.target.value === '' ? undefined : Number(e.target.value) })
+                }
+                className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                placeholder={`np. 30 (limit hybrydy poniżej ${co2Threshold} g/km)`}
+                min="0"
+              />
+              {car.co2Emission !== undefined && car.co2Emission >= co2Threshold && (
+                <p className="mt-1 text-sm text-yellow-400">
+                  ⚠️ Emisja co najmniej {co2Threshold} g/km - obowiązuje limit dla samochodów spalinowych.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Car Price */}
           <div>
             <label className="mb-2 block text-sm font-medium">Cena samochodu (netto)</label>
@@ -128,32 +228,30 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
           {/* Financing Method */}
           <div>
             <label className="mb-2 block text-sm font-medium">Sposób finansowania</label>
-            <div className="flex gap-4">
-              <label className="flex items-center">
-                <input
-                  type="radio"
-                  checked={car.financingMethod === 'leasing'}
-                  onChange={() => setCar({ ...car, financingMethod: 'leasing' })}
-                  className="mr-2"
-                />
-                Leasing
-              </label>
-              <label className="flex items-center">
-                <input
-                  type="radio"
-                  checked={car.financingMethod === 'cash'}
-                  onChange={() => setCar({ ...car, financingMethod: 'cash' })}
-                  className="mr-2"
-                />
-                Zakup gotówkowy
-              </label>
+            <div className="flex flex-wrap gap-4">
+              {FINANCING_METHODS.map((financingMethod) => (
+                <label key={financingMethod} className="flex items-center">
+                  <input
+                    type="radio"
+                    checked={car.financingMethod === financingMethod}
+                    onChange={() => setCar({ ...car, financingMethod })}
+                    className="mr-2"
+                  />
+                  {FINANCING_METHOD_LABELS[financingMethod]}
+                </label>
+              ))}
             </div>
+            {car.financingMethod === 'financial_leasing' && (
+              <p className="mt-1 text-xs text-gray-400">
+                Samochód amortyzujesz sam, w kosztach są odsetki. VAT od całej wartości płatny z góry.
+              </p>
+            )}
           </div>
 
-          {/* Leasing Parameters */}
-          {car.financingMethod === 'leasing' && (
+          {/* Leasing / Loan Parameters */}
+          {car.financingMethod !== 'cash' && (
             <div className="space-y-4 rounded-md border border-blue-700 bg-blue-950/20 p-4">
-              <h3 className="font-semibold">Szczegóły leasingu</h3>
+              <h3 className="font-semibold">{isLoan ? 'Szczegóły kredytu' : 'Szczegóły leasingu'}</h3>
 
               <div>
                 <label className="mb-2 block text-sm font-medium">Wpłata własna (%)</label>
@@ -172,7 +270,7 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
               </div>
 
               <div>
-                <label className="mb-2 block text-sm font-medium">Okres leasingu (miesiące)</label>
+                <label className="mb-2 block text-sm font-medium">Okres finansowania (miesiące)</label>
                 <select
                   value={car.leasingMonths}
                   onChange={(e) => setCar({ ...car, leasingMonths: Number(e.target.value) })}
@@ -185,21 +283,193 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
                 </select>
               </div>
 
+              {!isLoan && (
+                <div>
+                  <label className="mb-2 block text-sm font-medium">Wykup (%)</label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="20"
+                    step="0.5"
+                    value={car.leasingBuyoutPercent}
+                    onChange={(e) => setCar({ ...car, leasingBuyoutPercent: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                  <p className="mt-1 text-xs text-gray-400">
+                    {car.leasingBuyoutPercent}% = {((car.carPriceNetto * (car.leasingBuyoutPercent || 0)) / 100).toLocaleString('pl-PL')} PLN
+                  </p>
+                </div>
+              )}
+
               <div>
-                <label className="mb-2 block text-sm font-medium">Wykup (%)</label>
-                <input
-                  type="range"
-                  min="0"
-                  max="20"
-                  step="0.5"
-                  value={car.leasingBuyoutPercent}
-                  onChange={(e) => setCar({ ...car, leasingBuyoutPercent: Number(e.target.value) })}
-                  className="w-full"
-                />
+                <div className="mb-2 flex gap-4 text-sm">
+                  <label className="flex items-center">
+                    <input
+                      type="radio"
+                      checked={!installmentFromOffer}
+                      onChange={() => {
+                        setInstallmentFromOffer(false);
+                        setCar({ ...car, leasingMonthlyInstallment: undefined, leasingInterestRate: leasingRate });
+                      }}
+                      className="mr-2"
+                    />
+                    Oprocentowanie (WIBOR + marża)
+                  </label>
+                  <label className="flex items-center">
+                    <input
+                      type="radio"
+                      checked={installmentFromOffer}
+                      onChange={() => {
+                        setInstallmentFromOffer(true);
+                        setCar({ ...car, leasingMonthlyInstallment: Math.round(leasingInstallment) });
+                      }}
+                      className="mr-2"
+                    />
+                    Rata z oferty
+                  </label>
+                </div>
+                {installmentFromOffer ? (
+                  <input
+                    type="number"
+                    value={car.leasingMonthlyInstallment ?? ''}
+                    onChange={(e) =>
+                      setCar({
+                        ...car,
+                        leasingMonthlyInstallment: e.target.value === '' ? undefined : Number(e.target.value),
+                      })
+                    }
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    step="10"
+                    min="1"
+                    placeholder="Rata netto (PLN/miesiąc)"
+                    required
+                  />
+                ) : (
+                  <input
+                    type="number"
+                    value={((car.leasingInterestRate || 0) * 100).toFixed(2)}
+                    onChange={(e) => setCar({ ...car, leasingInterestRate: Number(e.target.value) / 100 })}
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    step="0.01"
+                    min="0"
+                  />
+                )}
                 <p className="mt-1 text-xs text-gray-400">
-                  {car.leasingBuyoutPercent}% = {((car.carPriceNetto * (car.leasingBuyoutPercent || 0)) / 100).toLocaleString('pl-PL')} PLN
+                  Rata netto: {Math.round(leasingInstallment).toLocaleString('pl-PL')} PLN | Oprocentowanie:{' '}
+                  {(leasingRate * 100).toFixed(2)}% | Odsetki łącznie: {Math.round(leasingTotalInterest).toLocaleString('pl-PL')} PLN
                 </p>
               </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <label className="mb-2 block text-sm font-medium">Opłaty jednorazowe (netto)</label>
+                  <input
+                    type="number"
+                    value={car.leasingFees ?? 0}
+                    onChange={(e) => setCar({ ...car, leasingFees: Number(e.target.value) })}
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    step="100"
+                    min="0"
+                  />
+                  <p className="mt-1 text-xs text-gray-400">np. opłata manipulacyjna</p>
+                </div>
+                <div>
+                  <label className="mb-2 block text-sm font-medium">Ubezpieczenie w racie (PLN/miesiąc)</label>
+                  <input
+                    type="number"
+                    value={car.leasingInsuranceMonthly ?? 0}
+                    onChange={(e) => setCar({ ...car, leasingInsuranceMonthly: Number(e.target.value) })}
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                    step="10"
+                    min="0"
+                  />
+                </div>
+              </div>
+
+              {exceedsLimit && (
+                <p className="text-xs text-yellow-400">
+                  {car.financingMethod === 'leasing'
+                    ? `Limit ${limit.toLocaleString('pl-PL')} PLN dotyczy tylko części kapitałowej rat - odsetki i opłaty są kosztem w całości.`
+                    : `Limit ${limit.toLocaleString('pl-PL')} PLN dotyczy amortyzacji - odsetki i opłaty są kosztem w całości.`}
+                </p>
+              )}
+
+              {car.financingMethod === 'leasing' && (
+                <>
+                {/* End of Leasing */}
+                <div>
+                  <label className="mb-2 block text-sm font-medium">Po zakończeniu leasingu</label>
+                  <select
+                    value={car.leaseEndDecision ?? ''}
+                    onChange={(e) =>
+                      setCar({
+                        ...car,
+                        leaseEndDecision: e.target.value === '' ? undefined : (e.target.value as LeaseEndDecision),
+                      })
+                    }
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  >
+                    <option value="">Zwrot samochodu</option>
+                    <option value="business_buyout">Wykup do firmy (dalsza amortyzacja)</option>
+                    <option value="private_buyout">Wykup na cele prywatne</option>
+                  </select>
+                </div>
+
+                {car.leaseEndDecision && (
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div>
+                      <label className="mb-2 block text-sm font-medium">Sprzedaż po wykupie (miesiące)</label>
+                      <input
+                        type="number"
+                        value={car.resaleMonthsAfterBuyout ?? ''}
+                        onChange={(e) =>
+                          setCar({
+                            ...car,
+                            resaleMonthsAfterBuyout: e.target.value === '' ? undefined : Number(e.target.value),
+                          })
+                        }
+                        className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                        placeholder="Brak sprzedaży"
+                        step="1"
+                        min="1"
+                      />
+                    </div>
+                    <div>
+                      <label className="mb-2 block text-sm font-medium">Cena sprzedaży (netto)</label>
+                      <input
+                        type="number"
+                        value={car.resalePriceNetto ?? 0}
+                        onChange={(e) => setCar({ ...car, resalePriceNetto: Number(e.target.value) })}
+                        className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                        step="1000"
+                        min="0"
+                        disabled={car.resaleMonthsAfterBuyout === undefined}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {car.leaseEndDecision === 'business_buyout' && (
+                  <p className="text-xs text-gray-400">
+                    Wykup jest nowym środkiem trwałym amortyzowanym do sprzedaży, sprzedaż to przychód firmy pomniejszony
+                    o nieumorzoną wartość.
+                  </p>
+                )}
+                {car.leaseEndDecision === 'private_buyout' && (
+                  <p
+                    className={`text-xs ${
+                      car.resaleMonthsAfterBuyout !== undefined &&
+                      car.resaleMonthsAfterBuyout <= PRIVATE_RESALE_TAX_PERIOD_MONTHS
+                        ? 'text-yellow-400'
+                        : 'text-gray-400'
+                    }`}
+                  >
+                    Sprzedaż przed upływem {PRIVATE_RESALE_TAX_PERIOD_MONTHS / 12} lat od wykupu (od 2022 r.) jest
+                    przychodem firmy - PIT i składka zdrowotna, koszt to cena wykupu.
+                  </p>
+                )}
+                </>
+              )}
             </div>
           )}
 
@@ -214,7 +484,7 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
                   onChange={() => setCar({ ...car, usageType: 'mixed' })}
                   className="mr-2"
                 />
-                Mieszane (Służbowo + Prywatnie) - 50% VAT
+                Mieszane (Służbowo + Prywatnie) - {mixedVatPercent}% VAT
               </label>
               <label className="flex items-center">
                 <input
@@ -228,9 +498,82 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
             </div>
           </div>
 
+          {/* Running Costs */}
+          <div className="space-y-4 rounded-md border border-gray-700 p-4">
+            <h3 className="font-semibold">Koszty eksploatacji (netto)</h3>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <label className="mb-2 block text-sm font-medium">Paliwo / ładowanie (PLN/miesiąc)</label>
+                <input
+                  type="number"
+                  value={car.fuelMonthly ?? 0}
+                  onChange={(e) => setCar({ ...car, fuelMonthly: Number(e.target.value) })}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  step="100"
+                  min="0"
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Ubezpieczenie OC/NNW (PLN/rok)</label>
+                <input
+                  type="number"
+                  value={car.insuranceYearly ?? 0}
+                  onChange={(e) => setCar({ ...car, insuranceYearly: Number(e.target.value) })}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  step="100"
+                  min="0"
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Ubezpieczenie AC (PLN/rok)</label>
+                <input
+                  type="number"
+                  value={car.acInsuranceYearly ?? 0}
+                  onChange={(e) => setCar({ ...car, acInsuranceYearly: Number(e.target.value) })}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  step="100"
+                  min="0"
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Serwis i naprawy (PLN/rok)</label>
+                <input
+                  type="number"
+                  value={car.serviceYearly ?? 0}
+                  onChange={(e) => setCar({ ...car, serviceYearly: Number(e.target.value) })}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  step="100"
+                  min="0"
+                />
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Opony (PLN/rok)</label>
+                <input
+                  type="number"
+                  value={car.tyresYearly ?? 0}
+                  onChange={(e) => setCar({ ...car, tyresYearly: Number(e.target.value) })}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                  step="100"
+                  min="0"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">
+              {car.usageType === 'mixed'
+                ? `Użytek mieszany: 75% kosztów w PIT, ${mixedVatPercent}% VAT (ubezpieczenie bez VAT).`
+                : '100% służbowo: koszty w całości w PIT i pełne odliczenie VAT (wymaga VAT-26 i ewidencji przebiegu).'}
+            </p>
+            {exceedsLimit && (car.acInsuranceYearly ?? 0) > 0 && (
+              <p className="text-xs text-yellow-400">
+                AC w kosztach tylko w proporcji limitu do wartości auta:{' '}
+                {((limit / car.carPriceNetto) * 100).toFixed(0)}% składki.
+              </p>
+            )}
+          </div>
+
           {/* Month of Purchase */}
           <div>
-            <label className="mb-2 block text-sm font-medium">Miesiąc zakupu (2026)</label>
+            <label className="mb-2 block text-sm font-medium">Miesiąc zakupu ({taxYear})</label>
             <select
               value={car.monthOfPurchase}
               onChange={(e) => setCar({ ...car, monthOfPurchase: Number(e.target.value) })}
@@ -238,12 +581,73 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
             >
               {Array.from({ length: 12 }, (_, i) => i + 1).map((month) => (
                 <option key={month} value={month}>
-                  {new Date(2026, month - 1).toLocaleString('pl', { month: 'long' })} (Miesiąc {month})
+                  {new Date(taxYear, month - 1).toLocaleString('pl', { month: 'long' })} (Miesiąc {month})
                 </option>
               ))}
             </select>
           </div>
 
+          {/* Financing Comparison */}
+          {onCompare && (
+            <div className="space-y-4 rounded-md border border-gray-700 p-4">
+              <div className="flex items-center justify-between gap-4">
+                <h3 className="font-semibold">Porównanie finansowania</h3>
+                <button
+                  type="button"
+                  onClick={handleCompare}
+                  disabled={isComparing}
+                  className="rounded-md border border-blue-600 px-4 py-1 text-sm font-semibold text-blue-400 hover:bg-blue-950/40 disabled:opacity-50"
+                >
+                  {isComparing ? 'Liczę...' : 'Porównaj gotówkę, leasing i kredyt'}
+                </button>
+              </div>
+              {comparison && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-right text-sm">
+                    <thead className="text-gray-400">
+                      <tr className="border-b border-gray-700">
+                        <th className="py-2 text-left">Sposób</th>
+                        <th className="py-2">Koszt łączny</th>
+                        <th className="py-2">Odsetki i opłaty</th>
+                        <th className="py-2">Netto ryczałt</th>
+                        <th className="py-2">Netto liniowy</th>
+                        <th className="py-2">Netto skala</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparison.rows.map((row) => (
+                        <tr key={row.financingMethod} className="border-b border-gray-800">
+                          <td className="py-1 text-left">{FINANCING_METHOD_LABELS[row.financingMethod]}</td>
+                          <td className="py-1">{Math.round(row.totalCost).toLocaleString('pl-PL')}</td>
+                          <td className="py-1 text-gray-400">{Math.round(row.financingCost).toLocaleString('pl-PL')}</td>
+                          {(['ryczalt', 'liniowy', 'skala'] as const).map((form) => (
+                            <td
+                              key={form}
+                              className={`py-1 ${
+                                row.netCost[form] === Math.min(...comparison.rows.map((other) => other.netCost[form]))
+                                  ? 'font-semibold text-green-400'
+                                  : ''
+                              }`}
+                              title={`Tarcza podatkowa: ${Math.round(row.taxShield[form]).toLocaleString('pl-PL')} PLN`}
+                            >
+                              {Math.round(row.netCost[form]).toLocaleString('pl-PL')}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-2 text-xs text-gray-400">
+                    Lata {comparison.startYear}-{comparison.startYear + comparison.years - 1}, do spłaty i pełnej
+                    amortyzacji auta w każdym wariancie (leasing operacyjny z wykupem do firmy): koszt łączny to
+                    płatności netto, wykup i nieodliczony VAT, koszt netto po odjęciu zaoszczędzonego PIT i składki
+                    zdrowotnej.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end gap-3">
             <button
@@ -257,7 +661,7 @@ export function CarInvestmentForm({ onSubmit, onCancel }: CarInvestmentFormProps
               type="submit"
               className="rounded-md bg-blue-600 px-6 py-2 font-semibold text-white hover:bg-blue-700"
             >
-              Dodaj samochód
+              {initialData ? 'Zapisz zmiany' : 'Dodaj samochód'}
             </button>
           </div>
         </form>
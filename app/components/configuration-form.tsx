@@ -1,14 +1,22 @@
 import { useState } from 'react';
-import type { ZusType } from '~/lib/tax-calculator';
+import {
+  DEFAULT_RYCZALT_REVENUE_SPLIT,
+  RYCZALT_RATES,
+  type RyczaltRevenueShare,
+  type ZusType,
+} from '~/lib/tax-calculator';
 
 export interface ConfigurationData {
+  title: string; // Optional scenario name shown in the history
   yearlyRevenueNetto: number;
   yearlyFixedCosts: number;
   vatPayer: boolean;
   vatRateMixed: number;
   zusType: ZusType;
   currentTaxationForm: string;
+  formerEmployerServices: boolean; // Services for a former employer, excludes liniowy and ryczałt
   selectedTaxYear: number; // Year for which tax configuration to use
+  ryczaltRevenueSplit: RyczaltRevenueShare[];
 }
 
 interface ConfigurationFormProps {
@@ -22,20 +30,48 @@ interface ConfigurationFormProps {
 
 export function ConfigurationForm({ initialData, onSubmit, aiSuggestion }: ConfigurationFormProps) {
   const [config, setConfig] = useState<ConfigurationData>({
+    title: initialData?.title || '',
     yearlyRevenueNetto: aiSuggestion?.revenue || initialData?.yearlyRevenueNetto || 180000,
     yearlyFixedCosts: aiSuggestion?.fixedCosts || initialData?.yearlyFixedCosts || 36000,
     vatPayer: initialData?.vatPayer ?? true,
     vatRateMixed: initialData?.vatRateMixed ?? 1.0,
     zusType: initialData?.zusType || 'maly_plus',
     currentTaxationForm: initialData?.currentTaxationForm || 'liniowy',
+    formerEmployerServices: initialData?.formerEmployerServices ?? false,
     selectedTaxYear: initialData?.selectedTaxYear || 2026,
+    ryczaltRevenueSplit: initialData?.ryczaltRevenueSplit || DEFAULT_RYCZALT_REVENUE_SPLIT,
   });
 
+  const splitTotalPercent = config.ryczaltRevenueSplit.reduce((sum, share) => sum + share.percent, 0);
+  const isSplitValid = Math.abs(splitTotalPercent - 100) < 0.01;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!isSplitValid) return;
     onSubmit(config);
   };
 
+  const updateShare = (index: number, share: Partial<RyczaltRevenueShare>) => {
+    setConfig({
+      ...config,
+      ryczaltRevenueSplit: config.ryczaltRevenueSplit.map((s, i) => (i === index ? { ...s, ...share } : s)),
+    });
+  };
+
+  const addShare = () => {
+    setConfig({
+      ...config,
+      ryczaltRevenueSplit: [...config.ryczaltRevenueSplit, { rate: 0.085, percent: Math.max(0, 100 - splitTotalPercent) }],
+    });
+  };
+
+  const removeShare = (index: number) => {
+    setConfig({
+      ...config,
+      ryczaltRevenueSplit: config.ryczaltRevenueSplit.filter((_, i) => i !== index),
+    });
+  };
+
   const monthlyRevenue = config.yearlyRevenueNetto / 12;
   const monthlyFixedCosts = config.yearlyFixedCosts / 12;
 
@@ -52,6 +88,20 @@ export function ConfigurationForm({ initialData, onSubmit, aiSuggestion }: Confi
       )}
 
       <div className="grid gap-6 md:grid-cols-2">
+        {/* Title */}
+        <div className="md:col-span-2">
+          <label className="mb-2 block text-sm font-medium">
+            Nazwa scenariusza (opcjonalnie)
+          </label>
+          <input
+            type="text"
+            value={config.title}
+            onChange={(e) => setConfig({ ...config, title: e.target.value })}
+            className="w-full rounded-md border border-gray-600 bg-gray-900 px-4 py-2 focus:border-blue-500 focus:outline-none"
+            placeholder="np. Leasing Tesli od lipca"
+          />
+        </div>
+
         {/* Revenue */}
         <div>
           <label className="mb-2 block text-sm font-medium">
@@ -147,16 +197,16 @@ export function ConfigurationForm({ initialData, onSubmit, aiSuggestion }: Confi
             className="w-full rounded-md border border-gray-600 bg-gray-900 px-4 py-2 focus:border-blue-500 focus:outline-none"
           >
             <option value="ulga_na_start">Ulga na start (0 zł - pierwsze 6 miesięcy)</option>
-            <option value="preferencyjny">Preferencyjny ZUS (≈650 PLN/miesiąc)</option>
-            <option value="maly_plus">Mały ZUS Plus (≈1 700 PLN/miesiąc)</option>
-            <option value="duzy">Pełny ZUS (≈1 900 PLN/miesiąc)</option>
+            <option value="preferencyjny">Preferencyjny ZUS (podstawa: 30% płacy minimalnej)</option>
+            <option value="maly_plus">Mały ZUS Plus (podstawa: płaca minimalna)</option>
+            <option value="duzy">Pełny ZUS (podstawa: 60% prognozowanego wynagrodzenia)</option>
           </select>
         </div>
 
         {/* Current Taxation Form */}
         <div>
           <label className="mb-2 block text-sm font-medium">
-            Obecna forma opodatkowania (dla referencji)
+            Obecna forma opodatkowania
           </label>
           <select
             value={config.currentTaxationForm}
@@ -167,6 +217,15 @@ export function ConfigurationForm({ initialData, onSubmit, aiSuggestion }: Confi
             <option value="skala">Skala podatkowa (progresywny)</option>
             <option value="ryczalt">Ryczałt</option>
           </select>
+          <label className="mt-2 flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={config.formerEmployerServices}
+              onChange={(e) => setConfig({ ...config, formerEmployerServices: e.target.checked })}
+              className="mr-2"
+            />
+            Świadczę usługi dla byłego pracodawcy (w tym lub poprzednim roku, w zakresie jak na etacie)
+          </label>
         </div>
 
         {/* Tax Year */}
@@ -185,12 +244,67 @@ export function ConfigurationForm({ initialData, onSubmit, aiSuggestion }: Confi
             <option value={2028}>2028</option>
           </select>
         </div>
+
+        {/* Ryczałt Revenue Split */}
+        <div className="md:col-span-2">
+          <label className="mb-2 block text-sm font-medium">
+            Stawki ryczałtu (podział przychodu według rodzaju działalności)
+          </label>
+          <div className="space-y-2">
+            {config.ryczaltRevenueSplit.map((share, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <select
+                  value={share.rate}
+                  onChange={(e) => updateShare(index, { rate: Number(e.target.value) })}
+                  className="flex-1 rounded-md border border-gray-600 bg-gray-900 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                >
+                  {RYCZALT_RATES.map(({ rate, label }) => (
+                    <option key={rate} value={rate}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={share.percent}
+                  onChange={(e) => updateShare(index, { percent: Number(e.target.value) })}
+                  className="w-24 rounded-md border border-gray-600 bg-gray-900 px-4 py-2 focus:border-blue-500 focus:outline-none"
+                />
+                <span className="text-gray-400">%</span>
+                <button
+                  type="button"
+                  onClick={() => removeShare(index)}
+                  disabled={config.ryczaltRevenueSplit.length === 1}
+                  className="text-red-400 hover:text-red-300 disabled:opacity-30"
+                >
+                  Usuń
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="mt-2 flex items-center justify-between">
+            <button
+              type="button"
+              onClick={addShare}
+              className="text-sm text-blue-400 hover:text-blue-300"
+            >
+              + Dodaj stawkę
+            </button>
+            <p className={`text-xs ${isSplitValid ? 'text-gray-400' : 'text-red-400'}`}>
+              Suma: {splitTotalPercent}%{!isSplitValid && ' - udziały muszą sumować się do 100%'}
+            </p>
+          </div>
+        </div>
       </div>
 
       <div className="flex justify-end">
         <button
           type="submit"
-          className="rounded-md bg-blue-600 px-6 py-2 font-semibold text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={!isSplitValid}
+          className="rounded-md bg-blue-600 px-6 py-2 font-semibold text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
         >
           Przejdź do inwestycji
         </button>
@@ -1,32 +1,67 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import {
+  DEFAULT_EQUIPMENT_KST_GROUP,
+  DepreciationCalculator,
+  KST_GROUPS,
+  CAR_KST_GROUP,
+  type DepreciationMethod,
+} from '~/lib/depreciation-calculator';
+import type { TaxYearConfigInput } from '~/lib/tax-calculator';
 
 export interface EquipmentInvestmentData {
   name: string;
   costNetto: number;
   monthOfPurchase: number;
+  kstGroup: string;
+  depreciationMethod: DepreciationMethod;
 }
 
 interface EquipmentInvestmentFormProps {
   onSubmit: (data: EquipmentInvestmentData) => void;
   onCancel: () => void;
+  taxYear: number;
+  initialData?: EquipmentInvestmentData; // Existing investment opened for editing
 }
 
-export function EquipmentInvestmentForm({ onSubmit, onCancel }: EquipmentInvestmentFormProps) {
-  const [equipment, setEquipment] = useState<EquipmentInvestmentData>({
+// Cars have their own form with depreciation limits
+const EQUIPMENT_KST_GROUPS = KST_GROUPS.filter((group) => group.group !== CAR_KST_GROUP);
+
+export function EquipmentInvestmentForm({ onSubmit, onCancel, taxYear, initialData }: EquipmentInvestmentFormProps) {
+  const [equipment, setEquipment] = useState<EquipmentInvestmentData>(initialData ?? {
     name: '',
     costNetto: 10_000,
     monthOfPurchase: 1,
+    kstGroup: DEFAULT_EQUIPMENT_KST_GROUP,
+    depreciationMethod: 'one_off',
   });
+  const [deMinimisLimit, setDeMinimisLimit] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/tax-config/${taxYear}`)
+      .then((response) => (response.ok ? response.json() : undefined))
+      .then((data) => setDeMinimisLimit((data as TaxYearConfigInput | undefined)?.deMinimisLimit ?? null))
+      .catch((error) => console.error('Error loading tax config:', error));
+  }, [taxYear]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onSubmit(equipment);
   };
 
+  const kstGroup = DepreciationCalculator.getKstGroup(equipment.kstGroup);
+  const isLowValue = DepreciationCalculator.isLowValueAsset(equipment.costNetto);
+  const oneOffAllowed = DepreciationCalculator.isOneOffAllowed({
+    initialValue: equipment.costNetto,
+    kstGroup: equipment.kstGroup,
+  });
+  const methodAllowed =
+    (equipment.depreciationMethod !== 'degressive' || kstGroup.degressiveAllowed) &&
+    (equipment.depreciationMethod !== 'one_off' || oneOffAllowed);
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70">
-      <div className="w-full max-w-lg rounded-lg border border-gray-700 bg-gray-900 p-6">
-        <h2 className="mb-6 text-2xl font-bold">Dodaj inwestycję w sprzęt</h2>
+      <div className="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-lg border border-gray-700 bg-gray-900 p-6">
+        <h2 className="mb-6 text-2xl font-bold">{initialData ? 'Edytuj' : 'Dodaj'} inwestycję w sprzęt</h2>
 
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Equipment Name */}
@@ -53,14 +88,91 @@ export function EquipmentInvestmentForm({ onSubmit, onCancel }: EquipmentInvestm
               step="100"
               required
             />
-            <p className="mt-1 text-xs text-gray-400">
-              Sprzęt IT - amortyzacja: ~30% w pierwszym roku
-            </p>
+          </div>
+
+          {/* KŚT Group */}
+          <div>
+            <label className="mb-2 block text-sm font-medium">Grupa KŚT</label>
+            <select
+              value={equipment.kstGroup}
+              onChange={(e) => setEquipment({ ...equipment, kstGroup: e.target.value })}
+              className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 focus:border-blue-500 focus:outline-none"
+            >
+              {EQUIPMENT_KST_GROUPS.map((group) => (
+                <option key={group.group} value={group.group}>
+                  {group.label} - {(group.rate * 100).toLocaleString('pl-PL')}% rocznie
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Depreciation Method */}
+          <div>
+            <label className="mb-2 block text-sm font-medium">Metoda amortyzacji</label>
+            <div className="space-y-2">
+              <label className="flex items-center rounded-md border border-gray-700 p-3 hover:bg-gray-800">
+                <input
+                  type="radio"
+                  checked={equipment.depreciationMethod === 'one_off'}
+                  onChange={() => setEquipment({ ...equipment, depreciationMethod: 'one_off' })}
+                  disabled={!oneOffAllowed}
+                  className="mr-3"
+                />
+                <div>
+                  <div className="font-medium">
+                    {isLowValue ? 'Jednorazowo w koszty (niskocenny)' : 'Amortyzacja jednorazowa (de minimis)'}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {isLowValue
+                      ? 'Do 10 000 PLN - w miesiącu oddania do używania'
+                      : oneOffAllowed
+                        ? `Limit łącznie dla wszystkich środków w roku${
+                            deMinimisLimit ? `: ${deMinimisLimit.toLocaleString('pl-PL')} PLN` : ''
+                          }, nadwyżka amortyzowana liniowo`
+                        : 'Niedostępna dla tej grupy KŚT'}
+                  </div>
+                </div>
+              </label>
+              <label className="flex items-center rounded-md border border-gray-700 p-3 hover:bg-gray-800">
+                <input
+                  type="radio"
+                  checked={equipment.depreciationMethod === 'linear'}
+                  onChange={() => setEquipment({ ...equipment, depreciationMethod: 'linear' })}
+                  className="mr-3"
+                />
+                <div>
+                  <div className="font-medium">Liniowa</div>
+                  <div className="text-xs text-gray-400">
+                    {(kstGroup.rate * 100).toLocaleString('pl-PL')}% rocznie od miesiąca po oddaniu do używania
+                  </div>
+                </div>
+              </label>
+              <label className="flex items-center rounded-md border border-gray-700 p-3 hover:bg-gray-800">
+                <input
+                  type="radio"
+                  checked={equipment.depreciationMethod === 'degressive'}
+                  onChange={() => setEquipment({ ...equipment, depreciationMethod: 'degressive' })}
+                  disabled={!kstGroup.degressiveAllowed}
+                  className="mr-3"
+                />
+                <div>
+                  <div className="font-medium">Degresywna</div>
+                  <div className="text-xs text-gray-400">
+                    {kstGroup.degressiveAllowed
+                      ? `${(kstGroup.rate * 200).toLocaleString('pl-PL')}% od wartości netto, potem liniowo`
+                      : 'Niedostępna dla tej grupy KŚT'}
+                  </div>
+                </div>
+              </label>
+            </div>
+            {!methodAllowed && (
+              <p className="mt-1 text-sm text-yellow-400">⚠️ Wybrana metoda nie jest dostępna dla tego środka trwałego.</p>
+            )}
           </div>
 
           {/* Month of Purchase */}
           <div>
-            <label className="mb-2 block text-sm font-medium">Miesiąc zakupu (2026)</label>
+            <label className="mb-2 block text-sm font-medium">Miesiąc oddania do używania ({taxYear})</label>
             <select
               value={equipment.monthOfPurchase}
               onChange={(e) => setEquipment({ ...equipment, monthOfPurchase: Number(e.target.value) })}
@@ -68,7 +180,7 @@ export function EquipmentInvestmentForm({ onSubmit, onCancel }: EquipmentInvestm
             >
               {Array.from({ length: 12 }, (_, i) => i + 1).map((month) => (
                 <option key={month} value={month}>
-                  {new Date(2026, month - 1).toLocaleString('pl', { month: 'long' })} (Miesiąc {month})
+                  {new Date(taxYear, month - 1).toLocaleString('pl', { month: 'long' })} (Miesiąc {month})
                 </option>
               ))}
             </select>
@@ -85,9 +197,10 @@ export function EquipmentInvestmentForm({ onSubmit, onCancel }: EquipmentInvestm
             </button>
             <button
               type="submit"
-              className="rounded-md bg-blue-600 px-6 py-2 font-semibold text-white hover:bg-blue-700"
+              disabled={!methodAllowed}
+              className="rounded-md bg-blue-600 px-6 py-2 font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
             >
-              Dodaj sprzęt
+              {initialData ? 'Zapisz zmiany' : 'Dodaj sprzęt'}
             </button>
           </div>
         </form>
@@ -1,15 +1,30 @@
 import { useState, useEffect } from 'react';
 import type { Investment as DbInvestment } from '~/db/schema';
+import type { TaxationForm } from '~/lib/tax-calculator';
 
 interface ScenarioSummary {
   id: string;
   createdAt: Date;
+  title: string | null;
   vatPayer: boolean;
   zusType: string;
   investmentCount: number;
   investments: DbInvestment[];
+  lastRun?: {
+    createdAt: Date;
+    engineVersion: string;
+    taxYear: number;
+    netCashInHand: Record<TaxationForm, number>;
+    configChanged: boolean; // Tax year config or engine version differ from the saved run
+  };
 }
 
+const FORM_LABELS: Record<TaxationForm, string> = {
+  ryczalt: 'Ryczałt',
+  liniowy: 'Liniowy',
+  skala: 'Skala',
+};
+
 interface HistorySidebarProps {
   currentScenarioId: string | null;
   onSelectScenario: (scenarioId: string) => void;
@@ -21,6 +36,7 @@ export function HistorySidebar({ currentScenarioId, onSelectScenario, onNewSimul
   const [scenarios, setScenarios] = useState<ScenarioSummary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isExpanded, setIsExpanded] = useState(true);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
 
   useEffect(() => {
     const fetchScenarios = async () => {
@@ -58,6 +74,14 @@ export function HistorySidebar({ currentScenarioId, onSelectScenario, onNewSimul
     return labels[zusType] || zusType;
   };
 
+  // Best taxation form of the last saved result
+  const getBestLastResult = (lastRun: NonNullable<ScenarioSummary['lastRun']>) => {
+    const form = (Object.keys(lastRun.netCashInHand) as TaxationForm[]).reduce((best, key) =>
+      lastRun.netCashInHand[key] > lastRun.netCashInHand[best] ? key : best
+    );
+    return { form, netCash: lastRun.netCashInHand[form] };
+  };
+
   const getTotalInvestmentValue = (scenario: ScenarioSummary) => {
     return scenario.investments.reduce((sum, inv) => sum + inv.costNetto, 0);
   };
@@ -69,6 +93,26 @@ export function HistorySidebar({ currentScenarioId, onSelectScenario, onNewSimul
     window.location.href = `/simulator?${params.toString()}`;
   };
 
+  const toggleCompare = (scenarioId: string) => {
+    setCompareIds(
+      compareIds.includes(scenarioId) ? compareIds.filter((id) => id !== scenarioId) : [...compareIds, scenarioId]
+    );
+  };
+
+  const cloneScenario = async (scenarioId: string) => {
+    try {
+      const response = await fetch(`/api/simulation/${scenarioId}/clone`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(`Clone failed with status ${response.status}`);
+      }
+      const data = (await response.json()) as { id: string };
+      navigateToScenario(data.id);
+    } catch (error) {
+      console.error('Failed to clone scenario:', error);
+      alert('Nie udało się skopiować scenariusza. Spróbuj ponownie.');
+    }
+  };
+
   return (
     <div className={`fixed left-0 top-0 h-screen flex flex-col border-r border-gray-700 bg-gray-900 transition-all ${isExpanded ? 'w-80' : 'w-16'}`}>
       {/* Header */}
@@ -93,6 +137,20 @@ export function HistorySidebar({ currentScenarioId, onSelectScenario, onNewSimul
         </button>
       </div>
 
+      {/* Compare Selected Scenarios */}
+      {isExpanded && compareIds.length > 0 && (
+        <div className="px-3 pb-3">
+          <button
+            onClick={() => (window.location.href = `/compare?ids=${compareIds.join(',')}`)}
+            disabled={compareIds.length < 2}
+            className="w-full rounded-md border border-blue-500 px-4 py-2 text-sm font-semibold text-blue-300 hover:bg-blue-950/50 disabled:opacity-50"
+          >
+            Porównaj ({compareIds.length}/4)
+          </button>
+          {compareIds.length < 2 && <p className="mt-1 text-xs text-gray-500">Zaznacz co najmniej 2 scenariusze</p>}
+        </div>
+      )}
+
       {/* Scenarios List */}
       <div className="flex-1 overflow-y-auto">
         {isLoading ? (
@@ -116,6 +174,7 @@ export function HistorySidebar({ currentScenarioId, onSelectScenario, onNewSimul
                 >
                   {isExpanded ? (
                     <div className="space-y-1">
+                      {scenario.title && <div className="truncate font-semibold">{scenario.title}</div>}
                       <div className="text-xs text-gray-400">{formatDate(scenario.createdAt)}</div>
                       <div className="flex items-center gap-2">
                         <span className="inline-block rounded bg-gray-700 px-2 py-0.5 text-xs">
@@ -130,11 +189,39 @@ export function HistorySidebar({ currentScenarioId, onSelectScenario, onNewSimul
                           {scenario.investmentCount} inwest. • {getTotalInvestmentValue(scenario).toLocaleString('pl-PL')} PLN
                         </div>
                       )}
+                      {scenario.lastRun && (
+                        <div className="text-xs text-gray-300">
+                          Ostatni wynik: {Math.round(getBestLastResult(scenario.lastRun).netCash).toLocaleString('pl-PL')} PLN
+                          ({FORM_LABELS[getBestLastResult(scenario.lastRun).form]}, {formatDate(scenario.lastRun.createdAt)})
+                        </div>
+                      )}
+                      {scenario.lastRun?.configChanged && (
+                        <div className="text-xs text-yellow-400">
+                          ⚠️ Stawki lub silnik obliczeń zmieniły się od tego wyniku - przelicz ponownie
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="text-xs font-semibold text-center">{scenario.investmentCount}</div>
                   )}
                 </button>
+                {isExpanded && (
+                  <div className="mt-2 flex items-center justify-between text-xs text-gray-400">
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={compareIds.includes(scenario.id)}
+                        onChange={() => toggleCompare(scenario.id)}
+                        disabled={!compareIds.includes(scenario.id) && compareIds.length >= 4}
+                        className="mr-1"
+                      />
+                      Porównaj
+                    </label>
+                    <button onClick={() => cloneScenario(scenario.id)} className="hover:text-white">
+                      Duplikuj
+                    </button>
+                  </div>
+                )}
               </div>
             ))}
           </div>
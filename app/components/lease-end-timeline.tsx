@@ -0,0 +1,65 @@
+import type { LeaseEndDecision } from '~/lib/leasing-calculator';
+import type { LeaseEndTimeline, LeaseEndTimelineEvent } from '~/lib/tax-calculator';
+
+interface LeaseEndTimelineProps {
+  timelines: LeaseEndTimeline[];
+  startYear: number; // Year of purchase
+}
+
+const DECISION_LABELS: Record<LeaseEndDecision, string> = {
+  business_buyout: 'Wykup do firmy',
+  private_buyout: 'Wykup prywatny',
+};
+
+const EVENT_LABELS: Record<LeaseEndTimelineEvent['kind'], string> = {
+  leasing_start: 'Wpłata własna',
+  last_installment: 'Ostatnia rata',
+  buyout: 'Wykup',
+  tax_free_from: 'Sprzedaż bez PIT',
+  resale: 'Sprzedaż',
+};
+
+const formatDate = (event: LeaseEndTimelineEvent, startYear: number) =>
+  new Date(startYear + event.yearOffset, event.month - 1).toLocaleString('pl', { month: 'long', year: 'numeric' });
+
+export function LeaseEndTimelineList({ timelines, startYear }: LeaseEndTimelineProps) {
+  return (
+    <div className="space-y-6">
+      {timelines.map((timeline, index) => (
+        <div key={`${timeline.carName}-${index}`}>
+          <h4 className="mb-3 font-semibold">
+            {timeline.carName} <span className="text-sm text-gray-400">- {DECISION_LABELS[timeline.decision]}</span>
+          </h4>
+          <ol className="relative space-y-3 border-l border-gray-700 pl-6">
+            {timeline.events.map((event) => (
+              <li key={event.kind} className="relative">
+                <span
+                  className={`absolute -left-[1.8rem] top-1.5 h-3 w-3 rounded-full ${
+                    event.kind === 'resale' && event.taxable
+                      ? 'bg-red-500'
+                      : event.kind === 'resale' || event.kind === 'tax_free_from'
+                        ? 'bg-green-500'
+                        : 'bg-blue-500'
+                  }`}
+                />
+                <div className="flex flex-wrap justify-between gap-2 text-sm">
+                  <span>
+                    <span className="text-gray-400">{formatDate(event, startYear)}</span> - {EVENT_LABELS[event.kind]}
+                  </span>
+                  {event.amount !== undefined && <span>{Math.round(event.amount).toLocaleString('pl-PL')} PLN</span>}
+                </div>
+                {event.kind === 'resale' && (
+                  <p className={`text-xs ${event.taxable ? 'text-red-400' : 'text-green-400'}`}>
+                    {event.taxable
+                      ? 'Przychód firmy - PIT i składka zdrowotna'
+                      : 'Sprzedaż prywatna po okresie karencji - bez PIT'}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+}
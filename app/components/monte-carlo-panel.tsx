@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { MONTE_CARLO_PERCENTILES, type MonteCarloOptions, type MonteCarloResult } from '~/lib/monte-carlo-calculator';
+import type { TaxationForm } from '~/lib/tax-calculator';
+
+interface MonteCarloPanelProps {
+  monthlyRevenue: number; // Configured revenue per month, the default mean
+  onRun: (options: MonteCarloOptions) => Promise<MonteCarloResult | null>;
+}
+
+const FORM_LABELS: Record<TaxationForm, string> = {
+  ryczalt: 'Ryczałt',
+  liniowy: 'Liniowy 19%',
+  skala: 'Skala podatkowa',
+};
+
+const FORMS = Object.keys(FORM_LABELS) as TaxationForm[];
+
+const formatPLN = (value: number) => Math.round(value).toLocaleString('pl-PL');
+
+export function MonteCarloPanel({ monthlyRevenue, onRun }: MonteCarloPanelProps) {
+  const [options, setOptions] = useState<MonteCarloOptions>({
+    monthlyRevenueMean: Math.round(monthlyRevenue),
+    monthlyRevenueStdev: Math.round(monthlyRevenue * 0.15),
+    idleMonths: 1,
+    idleMonthsProbability: 0.5,
+    runs: 1000,
+    seed: 1,
+  });
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setResult(await onRun(options));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const data = result
+    ? MONTE_CARLO_PERCENTILES.map((p) => ({
+        name: `P${p}`,
+        ...Object.fromEntries(FORMS.map((form) => [FORM_LABELS[form], Math.round(result.netCashPercentiles[form][p])])),
+      }))
+    : [];
+
+  return (
+    <div>
+      <div className="grid gap-4 md:grid-cols-6">
+        <div>
+          <label className="mb-1 block text-sm font-medium">Średni przychód (mies.)</label>
+          <input
+            type="number"
+            value={options.monthlyRevenueMean}
+            onChange={(e) => setOptions({ ...options, monthlyRevenueMean: Number(e.target.value) })}
+            className="w-full rounded-md border border-gray-600 bg-gray-900 px-3 py-2 focus:border-blue-500 focus:outline-none"
+            step="500"
+            min="0"
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Odchylenie (mies.)</label>
+          <input
+            type="number"
+            value={options.monthlyRevenueStdev}
+            onChange={(e) => setOptions({ ...options, monthlyRevenueStdev: Number(e.target.value) })}
+            className="w-full rounded-md border border-gray-600 bg-gray-900 px-3 py-2 focus:border-blue-500 focus:outline-none"
+            step="500"
+            min="0"
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Miesiące bez zleceń</label>
+          <input
+            type="number"
+            value={options.idleMonths}
+            onChange={(e) => setOptions({ ...options, idleMonths: Number(e.target.value) })}
+            className="w-full rounded-md border border-gray-600 bg-gray-900 px-3 py-2 focus:border-blue-500 focus:outline-none"
+            step="1"
+            min="0"
+            max="11"
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Szansa na przestój (%)</label>
+          <input
+            type="number"
+            value={Math.round(options.idleMonthsProbability * 1000) / 10}
+            onChange={(e) => setOptions({ ...options, idleMonthsProbability: Number(e.target.value) / 100 })}
+            className="w-full rounded-md border border-gray-600 bg-gray-900 px-3 py-2 focus:border-blue-500 focus:outline-none"
+            step="1"
+            min="0"
+            max="100"
+          />
+          <p className="mt-1 text-xs text-gray-400">
+            {options.idleMonths} mies. przestoju w {Math.round(options.idleMonthsProbability * 100)}% lat
+          </p>
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Liczba symulacji</label>
+          <input
+            type="number"
+            value={options.runs}
+            onChange={(e) => setOptions({ ...options, runs: Number(e.target.value) })}
+            className="w-full rounded-md border border-gray-600 bg-gray-900 px-3 py-2 focus:border-blue-500 focus:outline-none"
+            step="100"
+            min="1"
+            max="5000"
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Ziarno</label>
+          <input
+            type="number"
+            value={options.seed}
+            onChange={(e) => setOptions({ ...options, seed: Number(e.target.value) })}
+            className="w-full rounded-md border border-gray-600 bg-gray-900 px-3 py-2 focus:border-blue-500 focus:outline-none"
+            step="1"
+          />
+          <p className="mt-1 text-xs text-gray-400">To samo ziarno = te same wyniki</p>
+        </div>
+      </div>
+
+      <button
+        onClick={handleRun}
+        disabled={isRunning}
+        className="mt-4 rounded-md bg-blue-600 px-6 py-2 font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        {isRunning ? 'Symulowanie...' : 'Uruchom symulację'}
+      </button>
+
+      {result && (
+        <div className="mt-6">
+          <div className="mb-4 grid gap-4 md:grid-cols-3">
+            {FORMS.map((form) => (
+              <div key={form} className="rounded-md bg-gray-900/50 p-4">
+                <div className="text-sm text-gray-400">{FORM_LABELS[form]}</div>
+                <div className="text-2xl font-bold text-green-400">
+                  {(result.winProbability[form] * 100).toLocaleString('pl-PL', { maximumFractionDigits: 1 })}%
+                </div>
+                <div className="text-xs text-gray-400">
+                  szans na najlepszy wynik • średnio {formatPLN(result.expectedNetCash[form])} PLN
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <ResponsiveContainer width="100%" height={320}>
+            <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-gray-700" />
+              <XAxis dataKey="name" className="text-sm" />
+              <YAxis className="text-sm" />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#1f2937',
+                  border: '1px solid #374151',
+                  borderRadius: '0.5rem',
+                }}
+                formatter={(value) => `${Number(value).toLocaleString('pl-PL')} PLN`}
+              />
+              <Legend />
+              <Line type="monotone" dataKey={FORM_LABELS.ryczalt} stroke="#f59e0b" strokeWidth={2} />
+              <Line type="monotone" dataKey={FORM_LABELS.liniowy} stroke="#3b82f6" strokeWidth={2} />
+              <Line type="monotone" dataKey={FORM_LABELS.skala} stroke="#10b981" strokeWidth={2} />
+            </LineChart>
+          </ResponsiveContainer>
+          <p className="mt-2 text-sm text-gray-400">
+            Gotówka netto według percentyla ({result.runs} symulacji, ziarno {result.seed}). Przychód roczny: P10{' '}
+            {formatPLN(result.revenuePercentiles[10])} PLN, mediana {formatPLN(result.revenuePercentiles[50])} PLN, P90{' '}
+            {formatPLN(result.revenuePercentiles[90])} PLN
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { MonthlyCashflowResult } from '~/lib/cashflow-calculator';
+import type { TaxationForm } from '~/lib/tax-calculator';
+
+interface MonthlyCashflowProps {
+  results: {
+    ryczalt: MonthlyCashflowResult;
+    liniowy: MonthlyCashflowResult;
+    skala: MonthlyCashflowResult;
+  };
+}
+
+const FORM_LABELS: Record<TaxationForm, string> = {
+  ryczalt: 'Ryczałt',
+  liniowy: 'Liniowy 19%',
+  skala: 'Skala podatkowa',
+};
+
+const formatPLN = (value: number) => Math.round(value).toLocaleString('pl-PL');
+
+export function MonthlyCashflowChart({ results }: MonthlyCashflowProps) {
+  const data = results.ryczalt.months.map((row, i) => ({
+    name: new Date(2026, row.month - 1).toLocaleString('pl', { month: 'short' }),
+    [FORM_LABELS.ryczalt]: Math.round(row.cumulativeNetCash),
+    [FORM_LABELS.liniowy]: Math.round(results.liniowy.months[i].cumulativeNetCash),
+    [FORM_LABELS.skala]: Math.round(results.skala.months[i].cumulativeNetCash),
+  }));
+
+  return (
+    <div className="w-full">
+      <ResponsiveContainer width="100%" height={320}>
+        <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-gray-700" />
+          <XAxis dataKey="name" className="text-sm" />
+          <YAxis className="text-sm" />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#1f2937',
+              border: '1px solid #374151',
+              borderRadius: '0.5rem',
+            }}
+            formatter={(value) => `${Number(value).toLocaleString('pl-PL')} PLN`}
+          />
+          <Legend />
+          <Line type="monotone" dataKey={FORM_LABELS.ryczalt} stroke="#f59e0b" strokeWidth={2} />
+          <Line type="monotone" dataKey={FORM_LABELS.liniowy} stroke="#3b82f6" strokeWidth={2} />
+          <Line type="monotone" dataKey={FORM_LABELS.skala} stroke="#10b981" strokeWidth={2} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export function MonthlyCashflowTable({ results }: MonthlyCashflowProps) {
+  const [form, setForm] = useState<TaxationForm>('liniowy');
+  const result = results[form];
+  const { reconciliation } = result;
+  const hasInvestmentPayments = result.months.some((row) => row.investmentPayments > 0);
+  const hasVatBenefit = result.months.some((row) => row.vatBenefit > 0);
+  const hasCarRunningCosts = result.months.some((row) => row.carRunningCosts > 0);
+  const hasCarLeaseEnd = result.months.some((row) => row.carLeaseEnd !== 0);
+  const hasHealthSettlement = Math.round(reconciliation.healthInsuranceSettlement) !== 0;
+  const reconciliationColumns = 4 + (reconciliation.solidarityLevy > 0 ? 1 : 0) + (hasHealthSettlement ? 1 : 0);
+
+  return (
+    <div>
+      <div className="mb-4 flex gap-2">
+        {(Object.keys(FORM_LABELS) as TaxationForm[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setForm(key)}
+            className={`rounded-md px-4 py-1 text-sm font-semibold ${
+              form === key ? 'bg-blue-600 text-white' : 'border border-gray-600 hover:bg-gray-800'
+            }`}
+          >
+            {FORM_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-right text-sm">
+          <thead className="text-gray-400">
+            <tr className="border-b border-gray-700">
+              <th className="py-2 text-left">Miesiąc</th>
+              <th className="py-2">Przychód</th>
+              <th className="py-2">Koszty</th>
+              <th className="py-2">Amortyzacja</th>
+              {hasInvestmentPayments && <th className="py-2">Płatności za inwestycje</th>}
+              {hasCarRunningCosts && <th className="py-2">Eksploatacja auta</th>}
+              {hasCarLeaseEnd && <th className="py-2">Wykup / sprzedaż auta</th>}
+              <th className="py-2">ZUS</th>
+              <th className="py-2">NFZ</th>
+              <th className="py-2">Zaliczka PIT</th>
+              {hasVatBenefit && <th className="py-2">Zwrot VAT</th>}
+              <th className="py-2">Gotówka netto</th>
+              <th className="py-2">Narastająco</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.months.map((row) => (
+              <tr key={row.month} className="border-b border-gray-800">
+                <td className="py-1 text-left">
+                  {new Date(2026, row.month - 1).toLocaleString('pl', { month: 'long' })}
+                </td>
+                <td className="py-1">{formatPLN(row.revenue)}</td>
+                <td className="py-1">{formatPLN(row.costs)}</td>
+                <td className="py-1">{formatPLN(row.depreciation)}</td>
+                {hasInvestmentPayments && <td className="py-1">{formatPLN(row.investmentPayments)}</td>}
+                {hasCarRunningCosts && <td className="py-1">{formatPLN(row.carRunningCosts)}</td>}
+                {hasCarLeaseEnd && <td className="py-1">{formatPLN(row.carLeaseEnd)}</td>}
+                <td className="py-1 text-purple-400">{formatPLN(row.zus)}</td>
+                <td className="py-1 text-orange-400">{formatPLN(row.healthInsurance)}</td>
+                <td className="py-1 text-red-400">{formatPLN(row.pitAdvance)}</td>
+                {hasVatBenefit && <td className="py-1 text-green-400">{formatPLN(row.vatBenefit)}</td>}
+                <td className="py-1">{formatPLN(row.netCash)}</td>
+                <td className="py-1 font-semibold text-green-400">{formatPLN(row.cumulativeNetCash)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Annual Reconciliation */}
+      <div
+        className={`mt-4 grid gap-2 rounded-md bg-gray-900/50 p-4 text-sm ${
+          reconciliationColumns === 6 ? 'md:grid-cols-6' : reconciliationColumns === 5 ? 'md:grid-cols-5' : 'md:grid-cols-4'
+        }`}
+      >
+        <div>
+          <div className="text-gray-400">Podatek roczny</div>
+          <div className="font-semibold">{formatPLN(reconciliation.annualTax)} PLN</div>
+        </div>
+        <div>
+          <div className="text-gray-400">Zapłacone zaliczki</div>
+          <div className="font-semibold">{formatPLN(reconciliation.advancesPaid)} PLN</div>
+        </div>
+        <div>
+          <div className="text-gray-400">{reconciliation.settlement >= 0 ? 'Dopłata w zeznaniu' : 'Zwrot z zeznania'}</div>
+          <div className={`font-semibold ${reconciliation.settlement >= 0 ? 'text-red-400' : 'text-green-400'}`}>
+            {formatPLN(Math.abs(reconciliation.settlement))} PLN
+          </div>
+        </div>
+        {reconciliation.solidarityLevy > 0 && (
+          <div>
+            <div className="text-gray-400">Danina solidarnościowa</div>
+            <div className="font-semibold text-red-400">{formatPLN(reconciliation.solidarityLevy)} PLN</div>
+          </div>
+        )}
+        {hasHealthSettlement && (
+          <div>
+            <div className="text-gray-400">
+              {reconciliation.healthInsuranceSettlement > 0 ? 'Dopłata składki zdrowotnej' : 'Zwrot składki zdrowotnej'}
+            </div>
+            <div
+              className={`font-semibold ${reconciliation.healthInsuranceSettlement > 0 ? 'text-red-400' : 'text-green-400'}`}
+            >
+              {formatPLN(Math.abs(reconciliation.healthInsuranceSettlement))} PLN
+            </div>
+          </div>
+        )}
+        <div>
+          <div className="text-gray-400">Gotówka po rozliczeniu</div>
+          <div className="font-semibold text-green-400">{formatPLN(result.netCashAfterReconciliation)} PLN</div>
+        </div>
+      </div>
+    </div>
+  );
+}
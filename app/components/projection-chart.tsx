@@ -0,0 +1,96 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { ProjectionResult } from '~/lib/projection-calculator';
+import type { TaxationForm } from '~/lib/tax-calculator';
+
+interface ProjectionProps {
+  projection: ProjectionResult;
+}
+
+const FORM_LABELS: Record<TaxationForm, string> = {
+  ryczalt: 'Ryczałt',
+  liniowy: 'Liniowy 19%',
+  skala: 'Skala podatkowa',
+};
+
+const FORMS = Object.keys(FORM_LABELS) as TaxationForm[];
+
+const formatPLN = (value: number) => Math.round(value).toLocaleString('pl-PL');
+
+export function ProjectionChart({ projection }: ProjectionProps) {
+  const data = projection.years.map((row) => ({
+    name: String(row.year),
+    [FORM_LABELS.ryczalt]: Math.round(row.cumulativeNetCash.ryczalt),
+    [FORM_LABELS.liniowy]: Math.round(row.cumulativeNetCash.liniowy),
+    [FORM_LABELS.skala]: Math.round(row.cumulativeNetCash.skala),
+  }));
+
+  return (
+    <div className="w-full">
+      <ResponsiveContainer width="100%" height={320}>
+        <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-gray-700" />
+          <XAxis dataKey="name" className="text-sm" />
+          <YAxis className="text-sm" />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#1f2937',
+              border: '1px solid #374151',
+              borderRadius: '0.5rem',
+            }}
+            formatter={(value) => `${Number(value).toLocaleString('pl-PL')} PLN`}
+          />
+          <Legend />
+          <Line type="monotone" dataKey={FORM_LABELS.ryczalt} stroke="#f59e0b" strokeWidth={2} />
+          <Line type="monotone" dataKey={FORM_LABELS.liniowy} stroke="#3b82f6" strokeWidth={2} />
+          <Line type="monotone" dataKey={FORM_LABELS.skala} stroke="#10b981" strokeWidth={2} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export function ProjectionTable({ projection }: ProjectionProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-right text-sm">
+        <thead className="text-gray-400">
+          <tr className="border-b border-gray-700">
+            <th className="py-2 text-left">Rok</th>
+            {FORMS.map((form) => (
+              <th key={form} className="py-2">
+                {FORM_LABELS[form]}
+              </th>
+            ))}
+            <th className="py-2">Amortyzacja (liniowy)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {projection.years.map((row) => (
+            <tr key={row.year} className="border-b border-gray-800">
+              <td className="py-1 text-left">{row.year}</td>
+              {FORMS.map((form) => (
+                <td key={form} className="py-1">
+                  {formatPLN(row[form].netCashInHand)}
+                </td>
+              ))}
+              <td className="py-1 text-gray-400">
+                {formatPLN(
+                  row.liniowy.breakdown.carDepreciationDeduction + row.liniowy.breakdown.equipmentDepreciationDeduction
+                )}
+              </td>
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td className="py-2 text-left">Razem</td>
+            {FORMS.map((form) => (
+              <td key={form} className="py-2 text-green-400">
+                {formatPLN(projection.totalNetCash[form])}
+              </td>
+            ))}
+            <td />
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
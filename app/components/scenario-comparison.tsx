@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { Scenario } from '~/db/schema';
+import type { TaxationForm, TaxResult } from '~/lib/tax-calculator';
+
+export interface ScenarioComparisonEntry {
+  scenario: Scenario;
+  results: Record<TaxationForm, TaxResult>;
+}
+
+interface ScenarioComparisonProps {
+  entries: ScenarioComparisonEntry[];
+}
+
+const FORM_LABELS: Record<TaxationForm, string> = {
+  ryczalt: 'Ryczałt',
+  liniowy: 'Liniowy 19%',
+  skala: 'Skala podatkowa',
+};
+
+const FORMS = Object.keys(FORM_LABELS) as TaxationForm[];
+
+const SCENARIO_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6'];
+
+// Metrics of the delta table, `higherIsBetter` decides the color of the difference
+const METRICS: { key: keyof TaxResult; label: string; higherIsBetter: boolean }[] = [
+  { key: 'netCashInHand', label: 'Gotówka netto', higherIsBetter: true },
+  { key: 'totalCosts', label: 'Koszty', higherIsBetter: false },
+  { key: 'incomeTax', label: 'Podatek dochodowy', higherIsBetter: false },
+  { key: 'solidarityLevy', label: 'Danina solidarnościowa', higherIsBetter: false },
+  { key: 'healthInsurance', label: 'NFZ (składka zdrowotna)', higherIsBetter: false },
+  { key: 'zusTotal', label: 'ZUS', higherIsBetter: false },
+];
+
+const formatPLN = (value: number) => Math.round(value).toLocaleString('pl-PL');
+
+/**
+ * Scenario name in the legend: title or creation date, numbered as selected
+ */
+export const getScenarioLabel = (entry: ScenarioComparisonEntry, index: number) =>
+  `${index + 1}. ${
+    entry.scenario.title ||
+    new Date(entry.scenario.createdAt).toLocaleString('pl-PL', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  }`;
+
+export function ScenarioComparisonChart({ entries }: ScenarioComparisonProps) {
+  const data = FORMS.map((form) => ({
+    name: FORM_LABELS[form],
+    ...Object.fromEntries(
+      entries.map((entry, index) => [getScenarioLabel(entry, index), Math.round(entry.results[form].netCashInHand)])
+    ),
+  }));
+
+  return (
+    <div className="w-full">
+      <ResponsiveContainer width="100%" height={400}>
+        <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-gray-700" />
+          <XAxis dataKey="name" className="text-sm" />
+          <YAxis className="text-sm" />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#1f2937',
+              border: '1px solid #374151',
+              borderRadius: '0.5rem',
+            }}
+            formatter={(value) => `${Number(value).toLocaleString('pl-PL')} PLN`}
+          />
+          <Legend />
+          {entries.map((entry, index) => (
+            <Bar
+              key={entry.scenario.id}
+              dataKey={getScenarioLabel(entry, index)}
+              fill={SCENARIO_COLORS[index % SCENARIO_COLORS.length]}
+              radius={[8, 8, 0, 0]}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+/**
+ * Results of every scenario with the difference to the first one
+ */
+export function ScenarioDeltaTable({ entries }: ScenarioComparisonProps) {
+  const [form, setForm] = useState<TaxationForm>('liniowy');
+  const [baseline, ...others] = entries;
+
+  return (
+    <div>
+      <div className="mb-4 flex gap-2">
+        {FORMS.map((key) => (
+          <button
+            key={key}
+            onClick={() => setForm(key)}
+            className={`rounded-md px-4 py-1 text-sm font-semibold ${
+              form === key ? 'bg-blue-600 text-white' : 'border border-gray-600 hover:bg-gray-800'
+            }`}
+          >
+            {FORM_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-right text-sm">
+          <thead className="text-gray-400">
+            <tr className="border-b border-gray-700">
+              <th className="py-2 text-left">Pozycja</th>
+              <th className="py-2">{getScenarioLabel(baseline, 0)}</th>
+              {others.map((entry, i) => (
+                <th key={entry.scenario.id} className="py-2">
+                  {getScenarioLabel(entry, i + 1)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {METRICS.map((metric) => {
+              const base = baseline.results[form][metric.key] as number;
+              return (
+                <tr key={metric.key} className="border-b border-gray-800">
+                  <td className="py-2 text-left">{metric.label}</td>
+                  <td className="py-2">{formatPLN(base)} PLN</td>
+                  {others.map((entry) => {
+                    const value = entry.results[form][metric.key] as number;
+                    const delta = value - base;
+                    const isBetter = metric.higherIsBetter ? delta > 0 : delta < 0;
+                    return (
+                      <td key={entry.scenario.id} className="py-2">
+                        <div>{formatPLN(value)} PLN</div>
+                        {Math.round(delta) !== 0 && (
+                          <div className={`text-xs ${isBetter ? 'text-green-400' : 'text-red-400'}`}>
+                            {delta > 0 ? '+' : '-'}
+                            {formatPLN(Math.abs(delta))} PLN
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">Różnice liczone względem pierwszego scenariusza</p>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import type { TaxResult } from '~/lib/tax-calculator';
+import type { TaxResult, ZusBreakdown } from '~/lib/tax-calculator';
 
 interface TaxComparisonChartProps {
   results: {
@@ -15,6 +15,7 @@ export function TaxComparisonChart({ results }: TaxComparisonChartProps) {
       name: 'Ryczałt',
       'Gotówka netto': Math.round(results.ryczalt.netCashInHand),
       'Podatek dochodowy': Math.round(results.ryczalt.incomeTax),
+      'Danina solidarnościowa': Math.round(results.ryczalt.solidarityLevy),
       'NFZ (składka zdrowotna)': Math.round(results.ryczalt.healthInsurance),
       'ZUS': Math.round(results.ryczalt.zusTotal),
     },
@@ -22,6 +23,7 @@ export function TaxComparisonChart({ results }: TaxComparisonChartProps) {
       name: 'Liniowy 19%',
       'Gotówka netto': Math.round(results.liniowy.netCashInHand),
       'Podatek dochodowy': Math.round(results.liniowy.incomeTax),
+      'Danina solidarnościowa': Math.round(results.liniowy.solidarityLevy),
       'NFZ (składka zdrowotna)': Math.round(results.liniowy.healthInsurance),
       'ZUS': Math.round(results.liniowy.zusTotal),
     },
@@ -29,10 +31,12 @@ export function TaxComparisonChart({ results }: TaxComparisonChartProps) {
       name: 'Skala podatkowa',
       'Gotówka netto': Math.round(results.skala.netCashInHand),
       'Podatek dochodowy': Math.round(results.skala.incomeTax),
+      'Danina solidarnościowa': Math.round(results.skala.solidarityLevy),
       'NFZ (składka zdrowotna)': Math.round(results.skala.healthInsurance),
       'ZUS': Math.round(results.skala.zusTotal),
     },
   ];
+  const hasSolidarityLevy = data.some((row) => row['Danina solidarnościowa'] > 0);
 
   return (
     <div className="w-full">
@@ -60,6 +64,7 @@ export function TaxComparisonChart({ results }: TaxComparisonChartProps) {
           <Legend />
           <Bar dataKey="Gotówka netto" fill="#10b981" radius={[8, 8, 0, 0]} />
           <Bar dataKey="Podatek dochodowy" fill="#ef4444" radius={[8, 8, 0, 0]} />
+          {hasSolidarityLevy && <Bar dataKey="Danina solidarnościowa" fill="#be123c" radius={[8, 8, 0, 0]} />}
           <Bar dataKey="NFZ (składka zdrowotna)" fill="#f59e0b" radius={[8, 8, 0, 0]} />
           <Bar dataKey="ZUS" fill="#8b5cf6" radius={[8, 8, 0, 0]} />
         </BarChart>
@@ -68,6 +73,15 @@ export function TaxComparisonChart({ results }: TaxComparisonChartProps) {
   );
 }
 
+const ZUS_COMPONENT_LABELS: { key: keyof ZusBreakdown; label: string }[] = [
+  { key: 'retirement', label: 'Emerytalne' },
+  { key: 'disability', label: 'Rentowe' },
+  { key: 'accident', label: 'Wypadkowe' },
+  { key: 'sickness', label: 'Chorobowe' },
+  { key: 'workFund', label: 'Fundusz Pracy' },
+  { key: 'solidarityFund', label: 'Fundusz Solidarnościowy' },
+];
+
 interface TaxDetailCardProps {
   title: string;
   result: TaxResult;
@@ -102,6 +116,20 @@ export function TaxDetailCard({ title, result, isRecommended }: TaxDetailCardPro
           </div>
         )}
 
+        {result.breakdown.carRunningCostsDeduction > 0 && (
+          <div className="flex justify-between pl-4 text-sm">
+            <span className="text-gray-500">└ Eksploatacja samochodu:</span>
+            <span>{result.breakdown.carRunningCostsDeduction.toLocaleString('pl-PL')} PLN</span>
+          </div>
+        )}
+
+        {result.breakdown.carBuyoutDeduction > 0 && (
+          <div className="flex justify-between pl-4 text-sm">
+            <span className="text-gray-500">└ Wykup i sprzedaż samochodu:</span>
+            <span>{result.breakdown.carBuyoutDeduction.toLocaleString('pl-PL')} PLN</span>
+          </div>
+        )}
+
         {result.breakdown.equipmentDepreciationDeduction > 0 && (
           <div className="flex justify-between pl-4 text-sm">
             <span className="text-gray-500">└ Amortyzacja sprzętu:</span>
@@ -109,11 +137,37 @@ export function TaxDetailCard({ title, result, isRecommended }: TaxDetailCardPro
           </div>
         )}
 
+        <div className="flex justify-between border-b border-gray-700 pb-2">
+          <span className="text-gray-400">Podstawa opodatkowania:</span>
+          <span className="font-semibold">{result.taxableIncome.toLocaleString('pl-PL')} PLN</span>
+        </div>
+
+        {result.breakdown.socialZusDeduction > 0 && (
+          <div className="flex justify-between pl-4 text-sm">
+            <span className="text-gray-500">└ Odliczone składki ZUS:</span>
+            <span>{result.breakdown.socialZusDeduction.toLocaleString('pl-PL')} PLN</span>
+          </div>
+        )}
+
+        {result.breakdown.healthInsuranceDeduction > 0 && (
+          <div className="flex justify-between pl-4 text-sm">
+            <span className="text-gray-500">└ Odliczona składka zdrowotna:</span>
+            <span>{result.breakdown.healthInsuranceDeduction.toLocaleString('pl-PL')} PLN</span>
+          </div>
+        )}
+
         <div className="flex justify-between border-b border-gray-700 pb-2">
           <span className="text-gray-400">Podatek dochodowy:</span>
           <span className="font-semibold text-red-400">-{result.incomeTax.toLocaleString('pl-PL')} PLN</span>
         </div>
 
+        {result.solidarityLevy > 0 && (
+          <div className="flex justify-between border-b border-gray-700 pb-2">
+            <span className="text-gray-400">Danina solidarnościowa:</span>
+            <span className="font-semibold text-red-400">-{result.solidarityLevy.toLocaleString('pl-PL')} PLN</span>
+          </div>
+        )}
+
         <div className="flex justify-between border-b border-gray-700 pb-2">
           <span className="text-gray-400">NFZ (składka zdrowotna):</span>
           <span className="font-semibold text-orange-400">-{result.healthInsurance.toLocaleString('pl-PL')} PLN</span>
@@ -124,6 +178,13 @@ export function TaxDetailCard({ title, result, isRecommended }: TaxDetailCardPro
           <span className="font-semibold text-purple-400">-{result.zusTotal.toLocaleString('pl-PL')} PLN</span>
         </div>
 
+        {ZUS_COMPONENT_LABELS.filter(({ key }) => result.zusBreakdown[key] > 0).map(({ key, label }) => (
+          <div key={key} className="flex justify-between pl-4 text-sm">
+            <span className="text-gray-500">└ {label}:</span>
+            <span>{result.zusBreakdown[key].toLocaleString('pl-PL')} PLN</span>
+          </div>
+        ))}
+
         {result.breakdown.vatBenefit > 0 && (
           <div className="flex justify-between border-b border-gray-700 pb-2">
             <span className="text-gray-400">Korzyść VAT:</span>
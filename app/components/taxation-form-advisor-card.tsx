@@ -0,0 +1,81 @@
+import type { TaxationFormAdvice } from '~/lib/taxation-form-advisor';
+import type { TaxationForm } from '~/lib/tax-calculator';
+
+interface TaxationFormAdvisorCardProps {
+  advice: TaxationFormAdvice;
+}
+
+const FORM_LABELS: Record<TaxationForm, string> = {
+  ryczalt: 'Ryczałt',
+  liniowy: 'Liniowy 19%',
+  skala: 'Skala podatkowa',
+};
+
+const formatPLN = (value: number) => Math.round(value).toLocaleString('pl-PL');
+
+const formatDate = (date: string) => date.split('-').reverse().join('.');
+
+export function TaxationFormAdvisorCard({ advice }: TaxationFormAdvisorCardProps) {
+  const { deadline, healthInsuranceChange: health } = advice;
+
+  return (
+    <div className="rounded-md border border-gray-700 p-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="rounded-md bg-gray-900/50 p-4">
+          <div className="text-sm text-gray-400">Obecna forma</div>
+          <div className="text-2xl font-bold">{FORM_LABELS[advice.currentForm]}</div>
+        </div>
+        <div className="rounded-md bg-gray-900/50 p-4">
+          <div className="text-sm text-gray-400">Rekomendowana forma</div>
+          <div className="text-2xl font-bold text-green-400">{FORM_LABELS[advice.recommendedForm]}</div>
+        </div>
+        <div className="rounded-md bg-gray-900/50 p-4">
+          <div className="text-sm text-gray-400">Roczny zysk ze zmiany</div>
+          <div className={`text-2xl font-bold ${advice.yearlyGain > 0 ? 'text-green-400' : ''}`}>
+            {advice.shouldSwitch ? `${advice.yearlyGain > 0 ? '+' : ''}${formatPLN(advice.yearlyGain)} PLN` : '—'}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4 space-y-2 text-sm">
+        {!advice.shouldSwitch ? (
+          <p className="text-gray-400">Obecna forma opodatkowania jest najkorzystniejsza - zmiana nie jest potrzebna.</p>
+        ) : (
+          <p className={deadline.daysLeft <= 30 ? 'text-yellow-400' : 'text-gray-400'}>
+            📅 Zmianę na {FORM_LABELS[advice.recommendedForm].toLowerCase()} trzeba zgłosić w CEIDG do{' '}
+            <span className="font-semibold">{formatDate(deadline.date)}</span> (zostało {deadline.daysLeft} dni) - nowa
+            forma obowiązuje od {deadline.effectiveYear} roku
+          </p>
+        )}
+
+        {advice.excludedForms.length > 0 && (
+          <p className={advice.currentFormExcluded ? 'text-red-400' : 'text-yellow-400'}>
+            ⚠️ Usługi dla byłego pracodawcy wykluczają{' '}
+            {advice.excludedForms.map((form) => FORM_LABELS[form].toLowerCase()).join(' i ')} - przychód z tych usług
+            opodatkowany jest według skali
+            {advice.currentFormExcluded &&
+              `. Obecna forma (${FORM_LABELS[advice.currentForm].toLowerCase()}) nie jest dostępna - zmiana jest konieczna`}
+          </p>
+        )}
+
+        {health && advice.recommendedForm === 'skala' && (
+          <p className="text-yellow-400">
+            🏥 Na skali składka zdrowotna to 9% dochodu zamiast 4,9% i nie można jej odliczyć: składka{' '}
+            {formatPLN(health.current)} → {formatPLN(health.recommended)} PLN rocznie, utracone odliczenie{' '}
+            {formatPLN(health.currentDeduction)} PLN. W zamian skala pozwala na wspólne rozliczenie z małżonkiem i ulgi
+            (np. na dzieci), których kalkulator nie uwzględnia.
+          </p>
+        )}
+
+        {health && advice.recommendedForm === 'liniowy' && (
+          <p className="text-gray-400">
+            🏥 Na liniowym składka zdrowotna to 4,9% dochodu i można ją odliczyć do limitu: składka{' '}
+            {formatPLN(health.current)} → {formatPLN(health.recommended)} PLN rocznie, odliczenie{' '}
+            {formatPLN(health.recommendedDeduction)} PLN. Liniowy wyklucza wspólne rozliczenie z małżonkiem i ulgi
+            (np. na dzieci).
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
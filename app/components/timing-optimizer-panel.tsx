@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { PurchaseTiming, TimingOptimizationResult } from '~/lib/timing-optimizer';
+import type { TaxationForm } from '~/lib/tax-calculator';
+
+interface TimingOptimizerPanelProps {
+  investments: { id: string; name: string }[];
+  onRun: (investmentId: string) => Promise<TimingOptimizationResult | null>;
+}
+
+const FORM_LABELS: Record<TaxationForm, string> = {
+  ryczalt: 'Ryczałt',
+  liniowy: 'Liniowy 19%',
+  skala: 'Skala podatkowa',
+};
+
+const FORMS = Object.keys(FORM_LABELS) as TaxationForm[];
+
+const formatPLN = (value: number) => Math.round(value).toLocaleString('pl-PL');
+
+const formatTiming = (timing: PurchaseTiming) => `${String(timing.month).padStart(2, '0')}.${timing.year}`;
+
+export function TimingOptimizerPanel({ investments, onRun }: TimingOptimizerPanelProps) {
+  const [investmentId, setInvestmentId] = useState(investments[0]?.id ?? '');
+  const [result, setResult] = useState<TimingOptimizationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setResult(await onRun(investmentId));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const data = result
+    ? result.candidates.map((candidate) => ({
+        name: formatTiming(candidate),
+        ...Object.fromEntries(FORMS.map((form) => [FORM_LABELS[form], Math.round(candidate.totalNetCash[form])])),
+      }))
+    : [];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="min-w-64">
+          <label className="mb-1 block text-sm font-medium">Inwestycja</label>
+          <select
+            value={investmentId}
+            onChange={(e) => setInvestmentId(e.target.value)}
+            className="w-full rounded-md border border-gray-600 bg-gray-900 px-3 py-2 focus:border-blue-500 focus:outline-none"
+          >
+            {investments.map((investment) => (
+              <option key={investment.id} value={investment.id}>
+                {investment.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || !investmentId}
+          className="rounded-md bg-blue-600 px-6 py-2 font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isRunning ? 'Szukanie...' : 'Znajdź najlepszy termin'}
+        </button>
+      </div>
+
+      {result && (
+        <div className="mt-6">
+          <div className="mb-4 grid gap-4 md:grid-cols-3">
+            {FORMS.map((form) => (
+              <div key={form} className="rounded-md bg-gray-900/50 p-4">
+                <div className="text-sm text-gray-400">{FORM_LABELS[form]}</div>
+                <div className="text-2xl font-bold text-green-400">{formatTiming(result.best[form])}</div>
+                <div className="text-xs text-gray-400">
+                  {result.gain[form] > 0
+                    ? `+${formatPLN(result.gain[form])} PLN względem ${formatTiming(result.current)}`
+                    : `Obecny termin (${formatTiming(result.current)}) jest najkorzystniejszy`}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <ResponsiveContainer width="100%" height={320}>
+            <LineChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-gray-700" />
+              <XAxis dataKey="name" className="text-sm" />
+              <YAxis className="text-sm" />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#1f2937',
+                  border: '1px solid #374151',
+                  borderRadius: '0.5rem',
+                }}
+                labelFormatter={(value) => `Zakup: ${value}`}
+                formatter={(value) => `${Number(value).toLocaleString('pl-PL')} PLN`}
+              />
+              <Legend />
+              <Line type="monotone" dataKey={FORM_LABELS.ryczalt} stroke="#f59e0b" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey={FORM_LABELS.liniowy} stroke="#3b82f6" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey={FORM_LABELS.skala} stroke="#10b981" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+          <p className="mt-2 text-sm text-gray-400">
+            Gotówka netto {result.startYear}-{result.startYear + result.years - 1} w zależności od terminu zakupu
+            „{result.investmentName}” - do spłaty i pełnego odliczenia inwestycji także przy najpóźniejszym zakupie.
+            Zmiana terminu jest rekomendowana od 1 PLN zysku.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
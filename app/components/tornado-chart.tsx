@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import type { SensitivityInput, SensitivityResult } from '~/lib/sensitivity-calculator';
+import type { TaxationForm } from '~/lib/tax-calculator';
+
+interface TornadoChartProps {
+  result: SensitivityResult;
+  onPercentChange: (percent: number) => void;
+}
+
+const FORM_LABELS: Record<TaxationForm, string> = {
+  ryczalt: 'Ryczałt',
+  liniowy: 'Liniowy 19%',
+  skala: 'Skala podatkowa',
+};
+
+const INPUT_LABELS: Record<SensitivityInput, string> = {
+  revenue: 'Przychód',
+  fixedCosts: 'Koszty stałe',
+  carPrice: 'Cena auta',
+  equipmentCost: 'Koszt sprzętu',
+  purchaseMonth: 'Miesiąc zakupu',
+};
+
+const PERCENT_OPTIONS = [5, 10, 20];
+
+export function TornadoChart({ result, onPercentChange }: TornadoChartProps) {
+  const [form, setForm] = useState<TaxationForm>(result.baselineBest);
+
+  const lowLabel = `-${result.percent}%`;
+  const highLabel = `+${result.percent}%`;
+  const data = result.rows.map((row) => ({
+    name:
+      row.input === 'purchaseMonth'
+        ? `${INPUT_LABELS[row.input]} (±${row.monthShift} mies.)`
+        : INPUT_LABELS[row.input],
+    [lowLabel]: Math.round(row.low[form]),
+    [highLabel]: Math.round(row.high[form]),
+  }));
+  const decisionChanges = result.rows.filter(
+    (row) => row.lowBest !== result.baselineBest || row.highBest !== result.baselineBest
+  );
+
+  return (
+    <div className="w-full">
+      <div className="mb-4 flex flex-wrap justify-between gap-2">
+        <div className="flex gap-2">
+          {(Object.keys(FORM_LABELS) as TaxationForm[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => setForm(key)}
+              className={`rounded-md px-3 py-1 text-sm font-semibold ${
+                form === key ? 'bg-blue-600 text-white' : 'border border-gray-600 hover:bg-gray-800'
+              }`}
+            >
+              {FORM_LABELS[key]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {PERCENT_OPTIONS.map((percent) => (
+            <button
+              key={percent}
+              onClick={() => onPercentChange(percent)}
+              className={`rounded-md px-3 py-1 text-sm font-semibold ${
+                result.percent === percent ? 'bg-gray-600 text-white' : 'border border-gray-600 hover:bg-gray-800'
+              }`}
+            >
+              ±{percent}%
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={Math.max(200, data.length * 60)}>
+        <BarChart data={data} layout="vertical" stackOffset="sign" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-gray-700" />
+          <XAxis type="number" className="text-sm" />
+          <YAxis type="category" dataKey="name" width={150} className="text-sm" />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#1f2937',
+              border: '1px solid #374151',
+              borderRadius: '0.5rem',
+            }}
+            formatter={(value) => `${Number(value).toLocaleString('pl-PL')} PLN`}
+          />
+          <Legend />
+          <ReferenceLine x={0} stroke="#e5e7eb" />
+          <Bar dataKey={lowLabel} stackId="change" fill="#ef4444" />
+          <Bar dataKey={highLabel} stackId="change" fill="#10b981" />
+        </BarChart>
+      </ResponsiveContainer>
+
+      <div className="mt-2 space-y-1 text-sm text-gray-400">
+        <p>Zmiana gotówki netto ({FORM_LABELS[form]}) względem scenariusza bazowego</p>
+        {decisionChanges.map((row) => (
+          <p key={row.input} className="text-yellow-400">
+            ⚠️ {INPUT_LABELS[row.input]} zmienia najkorzystniejszą formę:{' '}
+            {row.lowBest !== result.baselineBest && `${lowLabel} → ${FORM_LABELS[row.lowBest]}`}
+            {row.lowBest !== result.baselineBest && row.highBest !== result.baselineBest && ', '}
+            {row.highBest !== result.baselineBest && `${highLabel} → ${FORM_LABELS[row.highBest]}`}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import type { RyczaltRevenueShare, ScenarioConfig, TaxResult, TaxationForm, TaxYearConfigInput } from '../lib/tax-calculator';
 
 export const scenarios = sqliteTable('scenarios', {
   id: text('id').primaryKey(),
@@ -14,6 +15,9 @@ export const scenarios = sqliteTable('scenarios', {
   currentTaxationForm: text('current_taxation_form', {
     enum: ['liniowy', 'skala', 'ryczalt'],
   }).notNull(),
+  formerEmployerServices: integer('former_employer_services', { mode: 'boolean' }).default(false),
+  selectedTaxYear: integer('selected_tax_year').default(2026),
+  ryczaltRevenueSplit: text('ryczalt_revenue_split', { mode: 'json' }).$type<RyczaltRevenueShare[]>(),
 });
 
 export const investments = sqliteTable('investments', {
@@ -27,6 +31,11 @@ export const investments = sqliteTable('investments', {
   type: text('type', {
     enum: ['equipment', 'car_leasing', 'car_cash'],
   }).notNull(),
+  // Equipment only
+  kstGroup: text('kst_group'),
+  depreciationMethod: text('depreciation_method', {
+    enum: ['linear', 'degressive', 'one_off'],
+  }),
 });
 
 export const carDetails = sqliteTable('car_details', {
@@ -37,12 +46,27 @@ export const carDetails = sqliteTable('car_details', {
     enum: ['combustion', 'hybrid_plugin', 'electric'],
   }).notNull(),
   financingMethod: text('financing_method', {
-    enum: ['cash', 'leasing'],
+    enum: ['cash', 'leasing', 'financial_leasing', 'loan'],
   }).notNull(),
   carPriceNetto: real('car_price_netto').notNull(),
   leasingInitialPaymentPercent: real('leasing_initial_payment_percent'),
   leasingMonths: integer('leasing_months'),
   leasingBuyoutPercent: real('leasing_buyout_percent'),
+  leasingInterestRate: real('leasing_interest_rate'), // Yearly, WIBOR + margin
+  leasingMonthlyInstallment: real('leasing_monthly_installment'),
+  leasingFees: real('leasing_fees'),
+  leasingInsuranceMonthly: real('leasing_insurance_monthly'),
+  co2Emission: real('co2_emission'), // g/km
+  fuelMonthly: real('fuel_monthly'),
+  insuranceYearly: real('insurance_yearly'),
+  acInsuranceYearly: real('ac_insurance_yearly'),
+  serviceYearly: real('service_yearly'),
+  tyresYearly: real('tyres_yearly'),
+  leaseEndDecision: text('lease_end_decision', {
+    enum: ['business_buyout', 'private_buyout'],
+  }),
+  resaleMonthsAfterBuyout: integer('resale_months_after_buyout'),
+  resalePriceNetto: real('resale_price_netto'),
   usageType: text('usage_type', {
     enum: ['mixed', 'full_business'],
   }).notNull(),
@@ -65,10 +89,25 @@ export const taxYearConfigs = sqliteTable('tax_year_configs', {
   accidentRate: real('accident_rate').notNull().default(0.0167),
   sicknessRate: real('sickness_rate').notNull().default(0.0245),
   workFundRate: real('work_fund_rate').notNull().default(0.0245),
-  solidarityFundRate: real('solidarity_fund_rate').notNull().default(0.0245),
+  solidarityFundRate: real('solidarity_fund_rate').notNull().default(0.0145),
   healthInsuranceRateSkala: real('health_insurance_rate_skala').notNull().default(0.09),
   healthInsuranceRateLiniowy: real('health_insurance_rate_liniowy').notNull().default(0.049),
   healthInsuranceLimitLinear: real('health_insurance_limit_linear').notNull().default(11_600),
+  healthInsuranceMinBaseRatio: real('health_insurance_min_base_ratio').notNull().default(0.75),
+  taxFreeAllowance: real('tax_free_allowance').notNull().default(30_000),
+  taxScaleThreshold: real('tax_scale_threshold').notNull().default(120_000),
+  taxScaleLowerRate: real('tax_scale_lower_rate').notNull().default(0.12),
+  taxScaleUpperRate: real('tax_scale_upper_rate').notNull().default(0.32),
+  linearTaxRate: real('linear_tax_rate').notNull().default(0.19),
+  carLimitCombustion: real('car_limit_combustion').notNull().default(100_000),
+  carLimitLowEmission: real('car_limit_low_emission').notNull().default(150_000),
+  carLimitElectric: real('car_limit_electric').notNull().default(225_000),
+  carLowEmissionCo2Threshold: real('car_low_emission_co2_threshold').notNull().default(50),
+  vatRate: real('vat_rate').notNull().default(0.23),
+  carVatMixedDeduction: real('car_vat_mixed_deduction').notNull().default(0.5),
+  solidarityLevyThreshold: real('solidarity_levy_threshold').notNull().default(1_000_000),
+  solidarityLevyRate: real('solidarity_levy_rate').notNull().default(0.04),
+  deMinimisLimit: real('de_minimis_limit').notNull().default(213_000),
   createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
 });
@@ -89,6 +128,20 @@ export const contributionConfigs = sqliteTable('contribution_configs', {
   createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
 });
 
+// Snapshot of a calculation: inputs, tax year config and results as they were at the time
+export const calculationRuns = sqliteTable('calculation_runs', {
+  id: text('id').primaryKey(),
+  scenarioId: text('scenario_id')
+    .notNull()
+    .references(() => scenarios.id, { onDelete: 'cascade' }),
+  createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+  engineVersion: text('engine_version').notNull(),
+  taxYear: integer('tax_year').notNull(),
+  inputs: text('inputs', { mode: 'json' }).$type<Omit<ScenarioConfig, 'taxYearConfig'>>().notNull(),
+  taxYearConfig: text('tax_year_config', { mode: 'json' }).$type<TaxYearConfigInput>(), // NULL = built-in defaults
+  results: text('results', { mode: 'json' }).$type<Record<TaxationForm, TaxResult>>().notNull(),
+});
+
 export type CarDetail = typeof carDetails.$inferSelect;
 export type NewCarDetail = typeof carDetails.$inferInsert;
 
@@ -97,3 +150,6 @@ export type NewTaxYearConfig = typeof taxYearConfigs.$inferInsert;
 
 export type ContributionConfig = typeof contributionConfigs.$inferSelect;
 export type NewContributionConfig = typeof contributionConfigs.$inferInsert;
+
+export type CalculationRun = typeof calculationRuns.$inferSelect;
+export type NewCalculationRun = typeof calculationRuns.$inferInsert;
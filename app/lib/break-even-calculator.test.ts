@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { BreakEvenCalculator } from './break-even-calculator';
+import { TaxCalculator, type ScenarioConfig } from './tax-calculator';
+
+const config: ScenarioConfig = {
+  yearlyRevenueNetto: 100000,
+  yearlyFixedCosts: 40000,
+  vatPayer: false,
+  vatRateMixed: 1,
+  zusType: 'duzy',
+  carInvestments: [],
+  equipmentInvestments: [],
+};
+
+describe('BreakEvenCalculator', () => {
+  it('takes net cash of every form from the tax calculator', () => {
+    const point = BreakEvenCalculator.calculatePoint(config, 'costs', 50000);
+    const results = TaxCalculator.compareAll({ ...config, yearlyFixedCosts: 50000 });
+
+    expect(point.netCashInHand).toEqual({
+      ryczalt: results.ryczalt.netCashInHand,
+      liniowy: results.liniowy.netCashInHand,
+      skala: results.skala.netCashInHand,
+    });
+    expect(point.best).toBe('skala');
+  });
+
+  it('finds the crossover after sweep points where two forms are exactly even', () => {
+    const result = BreakEvenCalculator.sweep(config, 'revenue', 0, 80000, 5);
+
+    // Up to the point where income turns positive neither liniowy nor skala pays tax, both pay
+    // the minimum health insurance, so the first four points are exactly even
+    result.points.slice(0, 4).forEach(point => {
+      expect(point.netCashInHand.liniowy - point.netCashInHand.skala).toBe(0);
+    });
+    expect(result.points[4].netCashInHand.skala).toBeGreaterThan(result.points[4].netCashInHand.liniowy);
+
+    // Skala starts winning once liniowy pays tax, when revenue covers fixed costs, social ZUS and
+    // the minimum health insurance deducted from liniowy income
+    const socialZus = TaxCalculator.compareAll(config).liniowy.breakdown.socialZusDeduction;
+    const minimumHealthInsurance = TaxCalculator.compareAll({ ...config, yearlyRevenueNetto: 0 }).liniowy.healthInsurance;
+    const crossovers = result.crossovers.filter(crossover => crossover.winner === 'skala' && crossover.loser === 'liniowy');
+    expect(crossovers).toHaveLength(1);
+    expect(crossovers[0].value).toBeCloseTo(config.yearlyFixedCosts + socialZus + minimumHealthInsurance, 2);
+  });
+
+  it('reports a crossover once when it falls on a sweep point', () => {
+    const { crossovers } = BreakEvenCalculator.sweep(config, 'revenue', 0, 200000, 11);
+    const value = crossovers.find(crossover => crossover.winner === 'ryczalt' && crossover.loser === 'skala')!.value;
+
+    // Sweep with the break-even as the middle point, the two forms are even there up to a fraction of a grosz
+    const centered = BreakEvenCalculator.sweep(config, 'revenue', value - 10000, value + 10000, 3);
+    const matches = centered.crossovers.filter(crossover => crossover.winner === 'ryczalt' && crossover.loser === 'skala');
+    expect(matches).toHaveLength(1);
+    expect(matches[0].value).toBeCloseTo(value, 2);
+  });
+});
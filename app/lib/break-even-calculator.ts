@@ -0,0 +1,117 @@
+/**
+ * Break-even analysis of the taxation forms
+ * Sweeps yearly revenue or fixed costs over a range with everything else unchanged,
+ * compares net cash of every form and finds the points where one form starts
+ * beating another.
+ */
+
+import { TaxCalculator, type ScenarioConfig, type TaxationForm } from './tax-calculator';
+
+export type BreakEvenAxis = 'revenue' | 'costs';
+
+const TAXATION_FORMS: TaxationForm[] = ['ryczalt', 'liniowy', 'skala'];
+
+/**
+ * Bisection steps used to locate a crossover between two sweep points
+ */
+const CROSSOVER_ITERATIONS = 30;
+
+export interface BreakEvenPoint {
+  value: number; // Yearly revenue or fixed costs
+  netCashInHand: Record<TaxationForm, number>;
+  best: TaxationForm;
+}
+
+export interface BreakEvenCrossover {
+  value: number;
+  winner: TaxationForm; // Better above the value
+  loser: TaxationForm;
+}
+
+export interface BreakEvenResult {
+  axis: BreakEvenAxis;
+  points: BreakEvenPoint[];
+  crossovers: BreakEvenCrossover[];
+  current: BreakEvenPoint; // The scenario as configured
+}
+
+export class BreakEvenCalculator {
+  /**
+   * Net cash of every form with the swept value applied
+   */
+  static calculatePoint(config: ScenarioConfig, axis: BreakEvenAxis, value: number): BreakEvenPoint {
+    const results = TaxCalculator.compareAll(
+      axis === 'revenue' ? { ...config, yearlyRevenueNetto: value } : { ...config, yearlyFixedCosts: value }
+    );
+    const netCashInHand = {
+      ryczalt: results.ryczalt.netCashInHand,
+      liniowy: results.liniowy.netCashInHand,
+      skala: results.skala.netCashInHand,
+    };
+    const best = TAXATION_FORMS.reduce((winner, form) => (netCashInHand[form] > netCashInHand[winner] ? form : winner));
+
+    return { value, netCashInHand, best };
+  }
+
+  /**
+   * Helper: Narrow down the value between two points where form `a` and form `b` swap places
+   */
+  private static findCrossover(
+    config: ScenarioConfig,
+    axis: BreakEvenAxis,
+    a: TaxationForm,
+    b: TaxationForm,
+    low: number,
+    high: number
+  ): number {
+    const start = this.calculatePoint(config, axis, low);
+    const lowSign = Math.sign(start.netCashInHand[a] - start.netCashInHand[b]);
+    for (let i = 0; i < CROSSOVER_ITERATIONS; i++) {
+      const mid = (low + high) / 2;
+      const point = this.calculatePoint(config, axis, mid);
+      if (Math.sign(point.netCashInHand[a] - point.netCashInHand[b]) === lowSign) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return (low + high) / 2;
+  }
+
+  /**
+   * Sweep the axis from `from` to `to` in `steps` evenly spaced points
+   */
+  static sweep(config: ScenarioConfig, axis: BreakEvenAxis, from: number, to: number, steps: number): BreakEvenResult {
+    const points = Array.from({ length: steps }, (_, i) =>
+      this.calculatePoint(config, axis, from + ((to - from) * i) / (steps - 1))
+    );
+
+    // Every pair of forms is checked, not only the best one, so liniowy vs skala is visible under ryczałt
+    const crossovers: BreakEvenCrossover[] = [];
+    for (let i = 1; i < points.length; i++) {
+      const previous = points[i - 1];
+      const point = points[i];
+      TAXATION_FORMS.forEach((a, index) => {
+        TAXATION_FORMS.slice(index + 1).forEach(b => {
+          const before = previous.netCashInHand[a] - previous.netCashInHand[b];
+          const after = point.netCashInHand[a] - point.netCashInHand[b];
+          if (Math.sign(before) === Math.sign(after) || after === 0) {
+            return;
+          }
+          crossovers.push({
+            value: this.findCrossover(config, axis, a, b, previous.value, point.value),
+            winner: after > 0 ? a : b,
+            loser: after > 0 ? b : a,
+          });
+        });
+      });
+    }
+
+    return {
+      axis,
+      points,
+      crossovers,
+      current: this.calculatePoint(config, axis, axis === 'revenue' ? config.yearlyRevenueNetto : config.yearlyFixedCosts),
+    };
+  }
+}
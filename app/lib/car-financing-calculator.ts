@@ -0,0 +1,153 @@
+/**
+ * Side-by-side comparison of financing a single car
+ * Every financing method is evaluated over the same period, until the car is paid off and fully
+ * depreciated under all of them. Operating leasing ends with a business buyout, so each method
+ * leaves the car in the business. Reported are cash paid including VAT that cannot be recovered,
+ * tax and health insurance saved thanks to the deductions, and the resulting net cost for every
+ * taxation form.
+ */
+
+import { ProjectionCalculator } from './projection-calculator';
+import {
+  TaxCalculator,
+  type CarInvestment,
+  type FinancingMethod,
+  type ScenarioConfig,
+  type TaxationForm,
+  type TaxResult,
+  type TaxYearConfigInput,
+} from './tax-calculator';
+
+export const FINANCING_METHODS: FinancingMethod[] = ['cash', 'leasing', 'financial_leasing', 'loan'];
+
+/**
+ * Term used for cars bought for cash and financing without a term set
+ */
+const DEFAULT_FINANCING_MONTHS = 48;
+
+const TAXATION_FORMS: TaxationForm[] = ['ryczalt', 'liniowy', 'skala'];
+
+export interface FinancingComparisonRow {
+  financingMethod: FinancingMethod;
+  totalCost: number; // Netto payments, buyout and VAT that is not recovered
+  financingCost: number; // Interest and fees
+  vatRecovered: number;
+  taxShield: Record<TaxationForm, number>; // PIT, solidarity levy and health insurance saved
+  netCost: Record<TaxationForm, number>;
+}
+
+export interface FinancingComparisonResult {
+  startYear: number;
+  months: number; // Leasing or loan term
+  years: number; // Compared calendar years, until every method is paid off and depreciated
+  rows: FinancingComparisonRow[];
+}
+
+export class CarFinancingCalculator {
+  /**
+   * Cash paid for the car: netto amounts, financing cost and VAT charged
+   */
+  static getPayments(
+    car: CarInvestment,
+    config?: TaxYearConfigInput
+  ): { netto: number; financingCost: number; vat: number } {
+    const vatRate = TaxCalculator.getVATRules(config).rate;
+    if (car.financingMethod === 'cash') {
+      return { netto: car.carPriceNetto, financingCost: 0, vat: car.carPriceNetto * vatRate };
+    }
+
+    const schedule = TaxCalculator.getLeasingSchedule(car, config);
+    const buyout =
+      car.financingMethod === 'loan' ? 0 : car.carPriceNetto * ((car.leasingBuyoutPercent ?? 0) / 100);
+    const financingCost = schedule.reduce((sum, payment) => sum + payment.interest + payment.fees, 0);
+    const netto =
+      schedule.reduce((sum, payment) => sum + payment.capital + payment.insurance, 0) + financingCost + buyout;
+
+    // Operating leasing carries VAT on every payment and the buyout, the others on the price upfront
+    const vat =
+      car.financingMethod === 'leasing'
+        ? schedule.reduce((sum, payment) => sum + payment.vat, 0) + buyout * vatRate
+        : car.carPriceNetto * vatRate;
+
+    return { netto, financingCost, vat };
+  }
+
+  /**
+   * PIT, solidarity levy and health insurance due in a projected year
+   */
+  private static getTaxesPaid(result: TaxResult): number {
+    return result.incomeTax + result.solidarityLevy + result.healthInsurance;
+  }
+
+  /**
+   * Compare financing methods for a car added to the scenario. Running costs are left out,
+   * as they don't depend on the financing.
+   */
+  static compare(
+    config: ScenarioConfig,
+    car: CarInvestment,
+    startYear: number,
+    taxYearConfigs: TaxYearConfigInput[]
+  ): FinancingComparisonResult {
+    const months = car.leasingMonths || DEFAULT_FINANCING_MONTHS;
+    const purchaseConfig = ProjectionCalculator.getConfigForYear(startYear, taxYearConfigs) ?? config.taxYearConfig;
+
+    const variants = FINANCING_METHODS.map(
+      (financingMethod): CarInvestment => ({
+        name: car.name,
+        carPriceNetto: car.carPriceNetto,
+        engineType: car.engineType,
+        co2Emission: car.co2Emission,
+        usageType: car.usageType,
+        financingMethod,
+        leasingInitialPaymentPercent: car.leasingInitialPaymentPercent ?? 0,
+        leasingMonths: months,
+        leasingBuyoutPercent: car.leasingBuyoutPercent ?? 0,
+        leasingInterestRate: car.leasingInterestRate,
+        leasingMonthlyInstallment: financingMethod === 'leasing' ? car.leasingMonthlyInstallment : undefined,
+        leasingFees: car.leasingFees,
+        leasingInsuranceMonthly: car.leasingInsuranceMonthly,
+        leaseEndDecision: financingMethod === 'leasing' ? 'business_buyout' : undefined,
+        monthOfPurchase: car.monthOfPurchase,
+      })
+    );
+    const years = Math.max(...variants.map(variant => TaxCalculator.getCarLastYearOffset(variant, purchaseConfig))) + 1;
+    const baseline = ProjectionCalculator.project(config, startYear, years, taxYearConfigs);
+
+    const rows = variants.map(variant => {
+      const projection = ProjectionCalculator.project(
+        { ...config, carInvestments: [...config.carInvestments, variant] },
+        startYear,
+        years,
+        taxYearConfigs
+      );
+
+      const payments = this.getPayments(variant, purchaseConfig);
+      const vatRecovered = config.vatPayer
+        ? payments.vat * TaxCalculator.getCarVATDeductibleShare(variant, purchaseConfig) * config.vatRateMixed
+        : 0;
+      const totalCost = payments.netto + payments.vat - vatRecovered;
+
+      const taxShield = {} as Record<TaxationForm, number>;
+      const netCost = {} as Record<TaxationForm, number>;
+      TAXATION_FORMS.forEach(form => {
+        taxShield[form] = projection.years.reduce(
+          (sum, year, i) => sum + this.getTaxesPaid(baseline.years[i][form]) - this.getTaxesPaid(year[form]),
+          0
+        );
+        netCost[form] = totalCost - taxShield[form];
+      });
+
+      return {
+        financingMethod: variant.financingMethod,
+        totalCost,
+        financingCost: payments.financingCost,
+        vatRecovered,
+        taxShield,
+        netCost,
+      };
+    });
+
+    return { startYear, months, years, rows };
+  }
+}
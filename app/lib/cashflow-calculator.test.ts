@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { CashflowCalculator } from './cashflow-calculator';
+import { TaxCalculator, type ScenarioConfig, type TaxationForm } from './tax-calculator';
+
+const FORMS: TaxationForm[] = ['ryczalt', 'liniowy', 'skala'];
+
+const config: ScenarioConfig = {
+  yearlyRevenueNetto: 300000,
+  yearlyFixedCosts: 36000,
+  vatPayer: true,
+  vatRateMixed: 1,
+  zusType: 'duzy',
+  carInvestments: [
+    {
+      name: 'Auto',
+      carPriceNetto: 200000,
+      engineType: 'combustion',
+      financingMethod: 'leasing',
+      usageType: 'mixed',
+      monthOfPurchase: 3,
+      leasingInitialPaymentPercent: 10,
+      leasingMonths: 36,
+      leasingBuyoutPercent: 20,
+      fuelMonthly: 800,
+    },
+  ],
+  equipmentInvestments: [{ name: 'Laptop', costNetto: 12000, monthOfPurchase: 5 }],
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('CashflowCalculator', () => {
+  it.each(FORMS)('adds up the 12 months and the settlement to the annual result (%s)', form => {
+    const annual = TaxCalculator.compareAll(config)[form];
+    const monthly = CashflowCalculator.simulateMonthly(config, form);
+
+    expect(monthly.months).toHaveLength(12);
+    expect(sum(monthly.months.map(row => row.revenue))).toBeCloseTo(annual.grossRevenue, 6);
+    expect(sum(monthly.months.map(row => row.zus))).toBeCloseTo(annual.zusTotal, 6);
+    expect(sum(monthly.months.map(row => row.pitAdvance)) + monthly.reconciliation.settlement).toBeCloseTo(
+      annual.incomeTax,
+      6
+    );
+    expect(
+      sum(monthly.months.map(row => row.healthInsurance)) + monthly.reconciliation.healthInsuranceSettlement
+    ).toBeCloseTo(annual.healthInsurance, 6);
+    expect(monthly.netCashAfterReconciliation).toBeCloseTo(annual.netCashInHand, 6);
+  });
+
+  it('books the purchase in its month', () => {
+    const monthly = CashflowCalculator.simulateMonthly(config, 'liniowy');
+
+    // Laptop bought in May: 12 000 netto + 23% VAT
+    const may = monthly.months[4].investmentPayments;
+    const june = monthly.months[5].investmentPayments;
+    expect(may - june).toBeCloseTo(12000 * 1.23, 6);
+  });
+
+  it('settles ryczałt health insurance to the yearly revenue tier', () => {
+    const noInvestments: ScenarioConfig = {
+      ...config,
+      yearlyRevenueNetto: 240000,
+      yearlyFixedCosts: 0,
+      carInvestments: [],
+      equipmentInvestments: [],
+    };
+    const { reconciliation } = CashflowCalculator.simulateMonthly(noInvestments, 'ryczalt');
+
+    // Months paid on the revenue reached to date (6 804 PLN) against the 60-300k tier for the year (7 560 PLN)
+    expect(reconciliation.healthInsurancePaid).toBeCloseTo(6804, 6);
+    expect(reconciliation.annualHealthInsurance).toBeCloseTo(7560, 6);
+    expect(reconciliation.healthInsuranceSettlement).toBeCloseTo(756, 6);
+  });
+});
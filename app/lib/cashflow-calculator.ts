@@ -0,0 +1,359 @@
+/**
+ * Month-by-month cash-flow simulation for Polish JDG
+ * PIT advances, ZUS and health insurance are paid monthly, while the final tax
+ * is settled in the annual return (PIT-28 / PIT-36L / PIT-36)
+ */
+
+import { ContributionCalculator } from './contribution-calculator';
+import { DepreciationCalculator, type AssetRegisterEntry } from './depreciation-calculator';
+import { LeasingCalculator } from './leasing-calculator';
+import { TaxCalculator, type ScenarioConfig, type TaxationForm } from './tax-calculator';
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+/**
+ * Single month of the simulation
+ */
+export interface MonthlyCashflowRow {
+  month: number; // 1-12
+  revenue: number;
+  costs: number; // Fixed costs
+  depreciation: number; // Car & equipment depreciation / leasing, lowers the tax base only
+  investmentPayments: number; // Purchase price, loan and leasing payments with VAT
+  carRunningCosts: number; // Fuel, insurance, service and tyres with VAT
+  carLeaseEnd: number; // Buyout of leased cars paid (-) and tax-free resale proceeds (+)
+  zus: number; // Social security
+  healthInsurance: number;
+  pitAdvance: number; // Zaliczka na podatek dochodowy
+  vatBenefit: number; // VAT recovered on investments bought this month
+  netCash: number;
+  cumulativeNetCash: number;
+}
+
+/**
+ * Annual settlement of PIT advances and health insurance against the yearly return
+ */
+export interface AnnualReconciliation {
+  annualTax: number; // Tax due from the annual return
+  advancesPaid: number;
+  settlement: number; // Positive = additional payment, negative = refund
+  solidarityLevy: number; // Paid once with the annual return, no advances
+  annualHealthInsurance: number; // Due for the year, ryczałt on the yearly revenue tier
+  healthInsurancePaid: number;
+  healthInsuranceSettlement: number; // Positive = additional payment, negative = refund
+}
+
+export interface MonthlyCashflowResult {
+  taxationForm: TaxationForm;
+  months: MonthlyCashflowRow[];
+  reconciliation: AnnualReconciliation;
+  netCashAfterReconciliation: number;
+}
+
+export class CashflowCalculator {
+  /**
+   * Depreciation write-offs per month: fixed assets follow their schedules, leased cars
+   * their payment schedules, interest of loans and financial leasing is deducted when paid
+   */
+  private static getMonthlyDepreciation(config: ScenarioConfig): number[] {
+    const monthly = MONTHS.map(() => 0);
+    const yearOffset = config.yearOffset ?? 0;
+    const purchaseConfig = config.purchaseTaxYearConfig ?? config.taxYearConfig;
+
+    const addSchedule = (asset: AssetRegisterEntry) => {
+      const schedule = DepreciationCalculator.generateSchedule(asset);
+      DepreciationCalculator.getMonthlyAmounts(schedule, yearOffset).forEach((amount, i) => {
+        monthly[i] += amount;
+      });
+    };
+
+    config.carInvestments.forEach(car => {
+      if (TaxCalculator.isOwnedCar(car)) {
+        addSchedule(TaxCalculator.toCarAsset(car, purchaseConfig));
+      }
+      if (car.financingMethod !== 'cash') {
+        const deductibleRatio = TaxCalculator.getCarLimitRatio(car, purchaseConfig);
+        TaxCalculator.getLeasingSchedule(car, purchaseConfig)
+          .filter(payment => payment.yearOffset === yearOffset)
+          .forEach(payment => {
+            monthly[payment.month - 1] +=
+              car.financingMethod === 'leasing'
+                ? LeasingCalculator.getDeductibleAmount(payment, deductibleRatio)
+                : LeasingCalculator.getFinanceCost(payment, deductibleRatio);
+          });
+      }
+    });
+    TaxCalculator.getEquipmentAssets(config.equipmentInvestments, purchaseConfig).forEach(addSchedule);
+
+    return monthly;
+  }
+
+  /**
+   * Cash paid for investments per month, VAT included
+   */
+  private static getMonthlyInvestmentPayments(config: ScenarioConfig): number[] {
+    const monthly = MONTHS.map(() => 0);
+    TaxCalculator.getInvestmentsPayments(config).forEach(payment => {
+      monthly[payment.month - 1] += payment.netto + payment.vat;
+    });
+    return monthly;
+  }
+
+  /**
+   * Car running costs per month with the VAT paid on them, spread evenly over the months
+   * the car is used in the business
+   */
+  private static getMonthlyRunningCosts(config: ScenarioConfig): {
+    cost: number[];
+    deductible: number[];
+    vatBenefit: number[];
+  } {
+    const monthly = { cost: MONTHS.map(() => 0), deductible: MONTHS.map(() => 0), vatBenefit: MONTHS.map(() => 0) };
+    const yearOffset = config.yearOffset ?? 0;
+    const purchaseConfig = config.purchaseTaxYearConfig ?? config.taxYearConfig;
+
+    config.carInvestments.forEach(car => {
+      const monthsInUse = TaxCalculator.getCarMonthsInUse(car, purchaseConfig, yearOffset);
+      const running = TaxCalculator.calculateCarRunningCosts(car, config.taxYearConfig, yearOffset, purchaseConfig);
+      const vatBenefit = config.vatPayer ? running.vat * config.vatRateMixed : 0;
+
+      monthsInUse.forEach(month => {
+        monthly.cost[month - 1] += (running.cost + running.vatPaid) / monthsInUse.length;
+        monthly.deductible[month - 1] += running.deductible / monthsInUse.length;
+        monthly.vatBenefit[month - 1] += vatBenefit / monthsInUse.length;
+      });
+    });
+
+    return monthly;
+  }
+
+  /**
+   * Buyout and resale of leased cars in the months they take place
+   */
+  private static getMonthlyLeaseEnd(config: ScenarioConfig): {
+    revenue: number[];
+    deductible: number[];
+    cash: number[];
+    vatBenefit: number[];
+  } {
+    const monthly = {
+      revenue: MONTHS.map(() => 0),
+      deductible: MONTHS.map(() => 0),
+      cash: MONTHS.map(() => 0),
+      vatBenefit: MONTHS.map(() => 0),
+    };
+    const yearOffset = config.yearOffset ?? 0;
+    const purchaseConfig = config.purchaseTaxYearConfig ?? config.taxYearConfig;
+
+    config.carInvestments.forEach(car => {
+      TaxCalculator.getLeaseEndEntries(car, purchaseConfig)
+        .filter(entry => entry.yearOffset === yearOffset)
+        .forEach(entry => {
+          monthly.revenue[entry.month - 1] += entry.revenue;
+          monthly.deductible[entry.month - 1] += entry.deductible;
+          monthly.cash[entry.month - 1] += entry.taxFreeIncome - entry.cost;
+          monthly.vatBenefit[entry.month - 1] += config.vatPayer ? entry.vat * config.vatRateMixed : 0;
+        });
+    });
+
+    return monthly;
+  }
+
+  /**
+   * VAT on purchases is recovered in the month of purchase, on leasing in the month of each payment
+   */
+  private static getMonthlyVATBenefit(config: ScenarioConfig): number[] {
+    const leasedCars = config.carInvestments.filter(car => !TaxCalculator.isOwnedCar(car));
+    const monthly = MONTHS.map(month =>
+      TaxCalculator.calculateInvestmentsVATBenefit({
+        ...config,
+        carInvestments: config.carInvestments.filter(
+          car => TaxCalculator.isOwnedCar(car) && car.monthOfPurchase === month
+        ),
+        equipmentInvestments: config.equipmentInvestments.filter(eq => eq.monthOfPurchase === month),
+      })
+    );
+
+    if (!config.vatPayer || leasedCars.length === 0) {
+      return monthly;
+    }
+
+    // Share of each year's leasing VAT falling into every month
+    const yearOffset = config.yearOffset ?? 0;
+    const purchaseConfig = config.purchaseTaxYearConfig ?? config.taxYearConfig;
+    leasedCars.forEach(car => {
+      const yearlyBenefit = TaxCalculator.calculateCarVATBenefit(car, purchaseConfig, yearOffset) * config.vatRateMixed;
+      const payments = TaxCalculator.getLeasingSchedule(car, purchaseConfig).filter(
+        payment => payment.yearOffset === yearOffset
+      );
+      const yearlyVat = payments.reduce((sum, payment) => sum + payment.vat, 0);
+      payments.forEach(payment => {
+        monthly[payment.month - 1] += yearlyVat > 0 ? (yearlyBenefit * payment.vat) / yearlyVat : 0;
+      });
+    });
+
+    return monthly;
+  }
+
+  /**
+   * Income tax due on cumulative year-to-date figures, after deducting
+   * social ZUS and the deductible part of health insurance paid to date
+   */
+  private static calculateTaxToDate(
+    config: ScenarioConfig,
+    taxationForm: TaxationForm,
+    toDate: {
+      revenue: number;
+      costs: number;
+      socialZus: number;
+      healthDeduction: number;
+    }
+  ): number {
+    if (taxationForm === 'ryczalt') {
+      const base = Math.max(0, toDate.revenue - toDate.socialZus - toDate.healthDeduction);
+      return TaxCalculator.calculateRyczaltTax(base, config.ryczaltRevenueSplit);
+    }
+
+    const incomeToDate = Math.max(0, toDate.revenue - toDate.costs);
+    const base = Math.max(0, incomeToDate - toDate.socialZus - toDate.healthDeduction);
+    if (taxationForm === 'liniowy') {
+      return TaxCalculator.calculateLinearTax(base, config.taxYearConfig);
+    }
+    return TaxCalculator.calculateScaleTax(base, config.taxYearConfig);
+  }
+
+  /**
+   * Simulate 12 months of a single taxation form
+   */
+  static simulateMonthly(config: ScenarioConfig, taxationForm: TaxationForm): MonthlyCashflowResult {
+    const contributionConfig = TaxCalculator.toContributionConfig(config.taxYearConfig);
+    const monthlyRevenue = config.yearlyRevenueNetto / 12;
+    const monthlyCosts = config.yearlyFixedCosts / 12;
+    const monthlyZus = TaxCalculator.calculateYearlyZUS(config.zusType, config.taxYearConfig) / 12;
+    const healthInsuranceLimit = contributionConfig.healthInsuranceLimits.linear;
+    const depreciationByMonth = this.getMonthlyDepreciation(config);
+    const investmentPaymentsByMonth = this.getMonthlyInvestmentPayments(config);
+    const vatBenefitByMonth = this.getMonthlyVATBenefit(config);
+    const runningCostsByMonth = this.getMonthlyRunningCosts(config);
+    const leaseEndByMonth = this.getMonthlyLeaseEnd(config);
+
+    let revenueToDate = 0;
+    let costsToDate = 0;
+    let healthDeductionToDate = 0;
+    let advancesPaid = 0;
+    let healthInsurancePaid = 0;
+    let cumulativeNetCash = 0;
+
+    const months: MonthlyCashflowRow[] = MONTHS.map(month => {
+      const depreciation = depreciationByMonth[month - 1];
+      const investmentPayments = investmentPaymentsByMonth[month - 1];
+      const revenue = monthlyRevenue + leaseEndByMonth.revenue[month - 1];
+      const carRunningCosts = runningCostsByMonth.cost[month - 1];
+      const carLeaseEnd = leaseEndByMonth.cash[month - 1];
+      // Only the deductible part of car running costs lowers the tax base
+      const deductibleCosts =
+        monthlyCosts + depreciation + runningCostsByMonth.deductible[month - 1] + leaseEndByMonth.deductible[month - 1];
+      const vatBenefit =
+        vatBenefitByMonth[month - 1] + runningCostsByMonth.vatBenefit[month - 1] + leaseEndByMonth.vatBenefit[month - 1];
+
+      revenueToDate += revenue;
+      costsToDate += deductibleCosts;
+
+      const health = ContributionCalculator.calculateHealthInsurance(
+        {
+          taxationForm,
+          zusType: config.zusType,
+          monthlyRevenue: revenue,
+          monthlyCosts: deductibleCosts,
+          voluntarySickness: false,
+          yearlyRevenueToDate: revenueToDate,
+        },
+        contributionConfig,
+        Math.max(0, revenue - deductibleCosts - monthlyZus)
+      );
+
+      // Ryczałt deducts 50% of paid health insurance, liniowy all of it up to the annual limit
+      if (taxationForm === 'ryczalt') {
+        healthDeductionToDate += health.deductibleFromIncome;
+      } else if (taxationForm === 'liniowy') {
+        healthDeductionToDate = Math.min(healthDeductionToDate + health.amount, healthInsuranceLimit);
+      }
+
+      // Cumulative method: advance = tax due to date minus advances already paid
+      const taxToDate = this.calculateTaxToDate(config, taxationForm, {
+        revenue: revenueToDate,
+        costs: costsToDate,
+        socialZus: monthlyZus * month,
+        healthDeduction: healthDeductionToDate,
+      });
+      const pitAdvance = Math.max(0, taxToDate - advancesPaid);
+      advancesPaid += pitAdvance;
+      healthInsurancePaid += health.amount;
+
+      const netCash =
+        revenue -
+        monthlyCosts -
+        investmentPayments -
+        carRunningCosts -
+        monthlyZus -
+        health.amount -
+        pitAdvance +
+        vatBenefit +
+        carLeaseEnd;
+      cumulativeNetCash += netCash;
+
+      return {
+        month,
+        revenue,
+        costs: monthlyCosts,
+        depreciation,
+        investmentPayments,
+        carRunningCosts,
+        carLeaseEnd,
+        zus: monthlyZus,
+        healthInsurance: health.amount,
+        pitAdvance,
+        vatBenefit,
+        netCash,
+        cumulativeNetCash,
+      };
+    });
+
+    const annualResult = TaxCalculator.compareAll(config)[taxationForm];
+    const annualTax = annualResult.incomeTax;
+    const settlement = annualTax - advancesPaid;
+    // Ryczałt health insurance is paid on the revenue tier reached to date and settled to the yearly tier
+    const healthInsuranceSettlement = annualResult.healthInsurance - healthInsurancePaid;
+
+    return {
+      taxationForm,
+      months,
+      reconciliation: {
+        annualTax,
+        advancesPaid,
+        settlement,
+        solidarityLevy: annualResult.solidarityLevy,
+        annualHealthInsurance: annualResult.healthInsurance,
+        healthInsurancePaid,
+        healthInsuranceSettlement,
+      },
+      netCashAfterReconciliation:
+        cumulativeNetCash - settlement - annualResult.solidarityLevy - healthInsuranceSettlement,
+    };
+  }
+
+  /**
+   * Simulate all three taxation forms month by month
+   */
+  static simulateAll(config: ScenarioConfig): {
+    ryczalt: MonthlyCashflowResult;
+    liniowy: MonthlyCashflowResult;
+    skala: MonthlyCashflowResult;
+  } {
+    return {
+      ryczalt: this.simulateMonthly(config, 'ryczalt'),
+      liniowy: this.simulateMonthly(config, 'liniowy'),
+      skala: this.simulateMonthly(config, 'skala'),
+    };
+  }
+}
@@ -21,13 +21,14 @@ export interface TaxYearConfig {
     accident: number; // Wypadkowe
     sickness: number; // Chorobowe (opcjonalne)
   };
-  workFundRate: number; // Fundusz Pracy (FP)
-  solidarityFundRate: number; // Fundusz Solidarnościowy
+  workFundRate: number; // Fundusz Pracy (FP), including the Solidarity Fund share
+  solidarityFundRate: number; // Fundusz Solidarnościowy - part of workFundRate, not charged on top
   healthInsuranceRate: {
     skala: number; // 9% for progressive scale
     liniowy: number; // 4.9% for linear (but minimum guaranteed)
   };
-  minHealthInsuranceLinear: number; // Minimum health insurance for linear: 9% * minimum wage
+  minHealthInsuranceBaseRatio: number; // Minimum health base as a share of minimum wage (75% from 2025)
+  minHealthInsuranceMonthly: number; // Minimum monthly health insurance for skala & liniowy
   healthInsuranceLimits: {
     linear: number; // Roczny limit odliczenia dla liniowego
   };
@@ -48,20 +49,21 @@ export const DEFAULT_2026_CONFIG: TaxYearConfig = {
     sickness: 0.0245, // 2.45%
   },
   workFundRate: 0.0245, // 2.45%
-  solidarityFundRate: 0.0245, // 2.45%
+  solidarityFundRate: 0.0145, // 1.45% of the 2.45% FP contribution, FP itself keeps 1.00%
   healthInsuranceRate: {
     skala: 0.09,
     liniowy: 0.049,
   },
-  minHealthInsuranceLinear: 0, // Will be calculated
+  minHealthInsuranceBaseRatio: 0.75,
+  minHealthInsuranceMonthly: 0, // Will be calculated
   healthInsuranceLimits: {
     linear: 11_600, // 2025 limit, to be updated for 2026
   },
 };
 
-// Calculate minimum health insurance for linear tax
-DEFAULT_2026_CONFIG.minHealthInsuranceLinear =
-  DEFAULT_2026_CONFIG.minimumWageGross * 0.09;
+// Calculate minimum health insurance for skala & liniowy: 9% of the minimum base
+DEFAULT_2026_CONFIG.minHealthInsuranceMonthly =
+  DEFAULT_2026_CONFIG.minimumWageGross * DEFAULT_2026_CONFIG.minHealthInsuranceBaseRatio * 0.09;
 
 /**
  * Input data for contribution calculation
@@ -148,11 +150,12 @@ export class ContributionCalculator {
     const sickness = input.voluntarySickness ? base * config.socialSecurityRates.sickness : 0;
 
     // Work fund & solidarity fund (not for preferencyjny if base < minimum wage)
+    // The solidarity fund is paid within the FP contribution, so it is split out of it
     let workFund = 0;
     let solidarityFund = 0;
     if (input.zusType !== 'preferencyjny' || base >= config.minimumWageGross) {
-      workFund = base * config.workFundRate;
-      solidarityFund = base * config.solidarityFundRate;
+      solidarityFund = base * Math.min(config.solidarityFundRate, config.workFundRate);
+      workFund = base * config.workFundRate - solidarityFund;
     }
 
     const total = retirement + disability + accident + sickness + workFund + solidarityFund;
@@ -185,19 +188,23 @@ export class ContributionCalculator {
     deductibleFromTax: number;
   } {
     if (input.taxationForm === 'skala') {
-      // Scale: 9% from income, no deduction from tax
-      const base = Math.max(monthlyIncome, config.minimumWageGross);
-      const amount = base * config.healthInsuranceRate.skala;
+      // Scale: 9% from income but minimum guaranteed, not deductible
+      const amount = Math.max(
+        Math.max(0, monthlyIncome) * config.healthInsuranceRate.skala,
+        config.minHealthInsuranceMonthly
+      );
 
       return {
         amount,
-        deductibleFromIncome: amount,
+        deductibleFromIncome: 0,
         deductibleFromTax: 0,
       };
     } else if (input.taxationForm === 'liniowy') {
       // Linear: 4.9% but minimum guaranteed
-      const base = Math.max(monthlyIncome, config.minimumWageGross);
-      const amount = Math.max(base * config.healthInsuranceRate.liniowy, config.minHealthInsuranceLinear);
+      const amount = Math.max(
+        Math.max(0, monthlyIncome) * config.healthInsuranceRate.liniowy,
+        config.minHealthInsuranceMonthly
+      );
 
       // For linear, amount can be deducted from income OR from tax (up to yearly limit)
       // For simplification in monthly calculation, we'll deduct from income
@@ -209,11 +216,12 @@ export class ContributionCalculator {
     } else if (input.taxationForm === 'ryczalt') {
       // Ryczałt: Complex progressive rates based on yearly revenue
       const base = config.averageWageQ4PreviousYear;
+      const yearlyRevenue = input.yearlyRevenueToDate ?? 0;
       let rateMultiplier = 0;
 
-      if (input.yearlyRevenueToDate && input.yearlyRevenueToDate <= 60_000) {
+      if (yearlyRevenue <= 60_000) {
         rateMultiplier = 0.6;
-      } else if (input.yearlyRevenueToDate && input.yearlyRevenueToDate <= 300_000) {
+      } else if (yearlyRevenue <= 300_000) {
         rateMultiplier = 1.0;
       } else {
         rateMultiplier = 1.8;
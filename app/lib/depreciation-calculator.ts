@@ -0,0 +1,229 @@
+/**
+ * Depreciation schedules for fixed assets (środki trwałe) of a Polish JDG
+ * Rates follow the KŚT classification (Klasyfikacja Środków Trwałych) from the
+ * annex to the PIT act. Linear and degressive depreciation start in the month after
+ * the asset is put into use, one-off write-offs are taken in the month it is put into use.
+ */
+
+export type DepreciationMethod = 'linear' | 'degressive' | 'one_off';
+
+/**
+ * Depreciation rates by KŚT group
+ */
+export interface KstGroup {
+  group: string;
+  label: string;
+  rate: number; // Yearly linear rate
+  degressiveAllowed: boolean; // Groups 3-6 and 8 only
+  deMinimisAllowed: boolean; // Groups 3-8 except passenger cars
+}
+
+export const KST_GROUPS: KstGroup[] = [
+  {
+    group: '491',
+    label: 'Komputery i zestawy komputerowe (KŚT 491)',
+    rate: 0.3,
+    degressiveAllowed: true,
+    deMinimisAllowed: true,
+  },
+  {
+    group: '8',
+    label: 'Narzędzia, przyrządy, meble i wyposażenie (KŚT 8)',
+    rate: 0.2,
+    degressiveAllowed: true,
+    deMinimisAllowed: true,
+  },
+  { group: '6', label: 'Urządzenia techniczne (KŚT 6)', rate: 0.1, degressiveAllowed: true, deMinimisAllowed: true },
+  {
+    group: '741',
+    label: 'Samochody osobowe (KŚT 741)',
+    rate: 0.2,
+    degressiveAllowed: false,
+    deMinimisAllowed: false,
+  },
+  {
+    group: '1',
+    label: 'Budynki i lokale niemieszkalne (KŚT 1)',
+    rate: 0.025,
+    degressiveAllowed: false,
+    deMinimisAllowed: false,
+  },
+  {
+    group: 'wnip',
+    label: 'Licencje i oprogramowanie (WNiP)',
+    rate: 0.5,
+    degressiveAllowed: false,
+    deMinimisAllowed: false,
+  },
+];
+
+export const DEFAULT_EQUIPMENT_KST_GROUP = '491';
+export const CAR_KST_GROUP = '741';
+
+/**
+ * Low-value assets (niskocenne) can be written off at once without the de minimis limit
+ */
+export const LOW_VALUE_ASSET_LIMIT = 10_000;
+
+/**
+ * Degressive method multiplies the linear rate by up to 2.0
+ */
+const DEGRESSIVE_FACTOR = 2;
+
+/**
+ * Single asset in the register (ewidencja środków trwałych)
+ */
+export interface AssetRegisterEntry {
+  name: string;
+  initialValue: number; // Wartość początkowa (netto, after car limits)
+  kstGroup: string;
+  method: DepreciationMethod;
+  monthPutIntoUse: number; // 1-12 in the year of purchase
+}
+
+/**
+ * Depreciation write-off for one month of the schedule
+ */
+export interface DepreciationScheduleEntry {
+  yearOffset: number; // 0 = year the asset was put into use
+  month: number; // 1-12
+  amount: number;
+  bookValue: number; // Remaining value after this month's write-off
+}
+
+export class DepreciationCalculator {
+  /**
+   * Look up a KŚT group, throws for unknown groups
+   */
+  static getKstGroup(group: string): KstGroup {
+    const kstGroup = KST_GROUPS.find(entry => entry.group === group);
+    if (!kstGroup) {
+      throw new Error(`Unknown KŚT group: ${group}`);
+    }
+    return kstGroup;
+  }
+
+  /**
+   * Whether the asset can be expensed at once as a low-value asset
+   */
+  static isLowValueAsset(initialValue: number): boolean {
+    return initialValue <= LOW_VALUE_ASSET_LIMIT;
+  }
+
+  /**
+   * Whether the asset can be written off at once: low-value assets always,
+   * more expensive ones only as de minimis in eligible KŚT groups
+   */
+  static isOneOffAllowed(asset: Pick<AssetRegisterEntry, 'initialValue' | 'kstGroup'>): boolean {
+    return this.isLowValueAsset(asset.initialValue) || this.getKstGroup(asset.kstGroup).deMinimisAllowed;
+  }
+
+  /**
+   * Apply the yearly de minimis cap to one-off write-offs of assets above the low-value limit.
+   * Assets are taken in the order they are put into use; the part above the remaining cap
+   * is depreciated linearly, ineligible assets fall back to linear depreciation.
+   */
+  static applyDeMinimisCap(assets: AssetRegisterEntry[], deMinimisLimit: number): AssetRegisterEntry[] {
+    let remainingLimit = deMinimisLimit;
+
+    return [...assets]
+      .sort((a, b) => a.monthPutIntoUse - b.monthPutIntoUse)
+      .flatMap(asset => {
+        if (asset.method !== 'one_off' || this.isLowValueAsset(asset.initialValue)) {
+          return [asset];
+        }
+        if (!this.isOneOffAllowed(asset)) {
+          return [{ ...asset, method: 'linear' as const }];
+        }
+
+        const oneOffValue = Math.min(asset.initialValue, remainingLimit);
+        remainingLimit -= oneOffValue;
+
+        const entries: AssetRegisterEntry[] = [];
+        if (oneOffValue > 0) {
+          entries.push({ ...asset, initialValue: oneOffValue });
+        }
+        if (oneOffValue < asset.initialValue) {
+          entries.push({ ...asset, initialValue: asset.initialValue - oneOffValue, method: 'linear' });
+        }
+        return entries;
+      });
+  }
+
+  /**
+   * Generate the month-by-month schedule until the asset is fully written off
+   */
+  static generateSchedule(asset: AssetRegisterEntry): DepreciationScheduleEntry[] {
+    if (asset.initialValue <= 0) {
+      return [];
+    }
+
+    if (asset.method === 'one_off') {
+      return [{ yearOffset: 0, month: asset.monthPutIntoUse, amount: asset.initialValue, bookValue: 0 }];
+    }
+
+    const kstGroup = this.getKstGroup(asset.kstGroup);
+    if (asset.method === 'degressive' && !kstGroup.degressiveAllowed) {
+      throw new Error(`Degressive depreciation is not available for KŚT group ${kstGroup.group}`);
+    }
+
+    const linearYearly = asset.initialValue * kstGroup.rate;
+    const schedule: DepreciationScheduleEntry[] = [];
+    let bookValue = asset.initialValue;
+
+    // Depreciation starts in the month after putting into use
+    let yearOffset = asset.monthPutIntoUse === 12 ? 1 : 0;
+    let month = asset.monthPutIntoUse === 12 ? 1 : asset.monthPutIntoUse + 1;
+    let yearlyAmount = linearYearly;
+    let switchedToLinear = asset.method === 'linear';
+
+    while (bookValue > 0.005) {
+      if (month === 1 || schedule.length === 0) {
+        // Degressive amount is set once a year on the book value, until linear becomes higher
+        if (!switchedToLinear) {
+          const degressiveYearly = bookValue * kstGroup.rate * DEGRESSIVE_FACTOR;
+          if (degressiveYearly > linearYearly) {
+            yearlyAmount = degressiveYearly;
+          } else {
+            yearlyAmount = linearYearly;
+            switchedToLinear = true;
+          }
+        }
+      }
+
+      const amount = Math.min(bookValue, yearlyAmount / 12);
+      bookValue -= amount;
+      schedule.push({ yearOffset, month, amount, bookValue });
+
+      month++;
+      if (month > 12) {
+        month = 1;
+        yearOffset++;
+      }
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Total write-off in a tax year (yearOffset 0 = year the asset was put into use)
+   */
+  static getYearlyAmount(schedule: DepreciationScheduleEntry[], yearOffset: number): number {
+    return schedule
+      .filter(entry => entry.yearOffset === yearOffset)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+  }
+
+  /**
+   * Write-offs per month (index 0 = January) in a tax year
+   */
+  static getMonthlyAmounts(schedule: DepreciationScheduleEntry[], yearOffset: number): number[] {
+    const monthly = Array.from({ length: 12 }, () => 0);
+    schedule
+      .filter(entry => entry.yearOffset === yearOffset)
+      .forEach(entry => {
+        monthly[entry.month - 1] += entry.amount;
+      });
+    return monthly;
+  }
+}
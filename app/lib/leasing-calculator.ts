@@ -0,0 +1,217 @@
+/**
+ * Operating leasing of a car (leasing operacyjny)
+ * Builds the annuity schedule of a leasing offer and splits every payment into
+ * capital and interest. Only the capital part and AC insurance are subject to the
+ * car depreciation limit ratio, interest and fees are deductible in full.
+ */
+
+export type LeaseEndDecision = 'business_buyout' | 'private_buyout';
+
+/**
+ * Fallback rate for leases saved without an offer (WIBOR + margin)
+ */
+export const DEFAULT_LEASING_INTEREST_RATE = 0.05;
+
+/**
+ * A car bought out to private assets and sold within this period (counted from the month
+ * after the buyout) is business revenue: 6 years since 2022, 6 months before
+ */
+export const PRIVATE_RESALE_TAX_PERIOD_MONTHS = 72;
+const PRIVATE_RESALE_TAX_PERIOD_MONTHS_BEFORE_2022 = 6;
+
+/**
+ * Point in the timeline relative to the year of purchase
+ */
+export interface LeasingDate {
+  yearOffset: number; // 0 = year of purchase
+  month: number; // 1-12
+}
+
+/**
+ * Leasing offer terms, all amounts netto
+ */
+export interface LeasingOffer {
+  carPriceNetto: number;
+  initialPaymentPercent: number; // Wpłata własna, % of price
+  months: number;
+  buyoutPercent: number; // Wykup (residual value), % of price
+  interestRate?: number; // Yearly, e.g. 0.075 for WIBOR + margin
+  monthlyInstallment?: number; // Rata netto from the offer, used to derive the rate when positive
+  fees?: number; // One-off fees (opłata manipulacyjna)
+  insuranceMonthly?: number; // Insurance paid with the installment (VAT exempt)
+  monthOfPurchase: number; // 1-12, month of the initial payment
+}
+
+/**
+ * Single payment of the leasing schedule
+ */
+export interface LeasingPayment extends LeasingDate {
+  kind: 'initial' | 'installment';
+  capital: number;
+  interest: number;
+  fees: number; // One-off fees
+  insurance: number; // Insurance paid with the installment (AC)
+  vat: number; // VAT charged on the payment
+  balance: number; // Capital left to repay after the payment (excluding buyout)
+}
+
+export class LeasingCalculator {
+  /**
+   * Monthly annuity installment repaying the financed amount down to the buyout value
+   */
+  static calculateInstallment(financed: number, residual: number, months: number, yearlyRate: number): number {
+    const r = yearlyRate / 12;
+    if (r === 0) {
+      return (financed - residual) / months;
+    }
+    const discount = Math.pow(1 + r, -months);
+    return ((financed - residual * discount) * r) / (1 - discount);
+  }
+
+  /**
+   * Yearly interest rate implied by the offer installment (bisection)
+   */
+  static calculateImpliedRate(financed: number, residual: number, months: number, installment: number): number {
+    let low = 0;
+    let high = 1;
+    if (this.calculateInstallment(financed, residual, months, low) >= installment) {
+      return 0;
+    }
+    for (let i = 0; i < 100; i++) {
+      const mid = (low + high) / 2;
+      if (this.calculateInstallment(financed, residual, months, mid) < installment) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return (low + high) / 2;
+  }
+
+  /**
+   * Offer installment, an empty or non-positive installment counts as not given
+   */
+  static getOfferInstallment(monthlyInstallment?: number): number | undefined {
+    return monthlyInstallment !== undefined && monthlyInstallment > 0 ? monthlyInstallment : undefined;
+  }
+
+  /**
+   * Effective yearly interest rate of the offer
+   */
+  static getInterestRate(offer: LeasingOffer): number {
+    const { financed, residual } = this.getFinancedAmounts(offer);
+    const offerInstallment = this.getOfferInstallment(offer.monthlyInstallment);
+    if (offerInstallment !== undefined) {
+      return this.calculateImpliedRate(financed, residual, offer.months, offerInstallment);
+    }
+    return offer.interestRate ?? DEFAULT_LEASING_INTEREST_RATE;
+  }
+
+  /**
+   * Helper: Amount financed by the lessor and residual value left for the buyout
+   */
+  private static getFinancedAmounts(offer: LeasingOffer): { initialPayment: number; financed: number; residual: number } {
+    const initialPayment = offer.carPriceNetto * (offer.initialPaymentPercent / 100);
+    return {
+      initialPayment,
+      financed: offer.carPriceNetto - initialPayment,
+      residual: offer.carPriceNetto * (offer.buyoutPercent / 100),
+    };
+  }
+
+  /**
+   * Generate the payment schedule: initial payment in the month of purchase,
+   * installments from the following month
+   */
+  static generateSchedule(offer: LeasingOffer, vatRate: number): LeasingPayment[] {
+    const { initialPayment, financed, residual } = this.getFinancedAmounts(offer);
+    const yearlyRate = this.getInterestRate(offer);
+    const monthlyRate = yearlyRate / 12;
+    const installment =
+      this.getOfferInstallment(offer.monthlyInstallment) ?? this.calculateInstallment(financed, residual, offer.months, yearlyRate);
+    const fees = offer.fees ?? 0;
+    const insurance = offer.insuranceMonthly ?? 0;
+
+    const schedule: LeasingPayment[] = [
+      {
+        yearOffset: 0,
+        month: offer.monthOfPurchase,
+        kind: 'initial',
+        capital: initialPayment,
+        interest: 0,
+        fees,
+        insurance: 0,
+        vat: (initialPayment + fees) * vatRate,
+        balance: financed - residual,
+      },
+    ];
+
+    let balance = financed;
+    for (let n = 1; n <= offer.months; n++) {
+      const monthIndex = offer.monthOfPurchase - 1 + n;
+      const interest = balance * monthlyRate;
+      // The last installment settles any rounding left by the offer installment
+      const capital = n === offer.months ? balance - residual : Math.min(installment - interest, balance - residual);
+      balance -= capital;
+
+      schedule.push({
+        yearOffset: Math.floor(monthIndex / 12),
+        month: (monthIndex % 12) + 1,
+        kind: 'installment',
+        capital,
+        interest,
+        fees: 0,
+        insurance,
+        vat: (capital + interest) * vatRate, // Insurance is VAT exempt
+        balance: balance - residual,
+      });
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Tax-deductible amount of a payment: capital and insurance limited by the ratio,
+   * interest and fees in full
+   */
+  static getDeductibleAmount(payment: LeasingPayment, deductibleRatio: number): number {
+    return payment.capital * deductibleRatio + this.getFinanceCost(payment, deductibleRatio);
+  }
+
+  /**
+   * Tax-deductible amount of a payment without the capital, which is depreciated when the car
+   * is owned (loan, financial leasing): interest and fees in full, insurance limited by the ratio
+   */
+  static getFinanceCost(payment: LeasingPayment, deductibleRatio: number): number {
+    return payment.insurance * deductibleRatio + payment.interest + payment.fees;
+  }
+
+  /**
+   * Date `months` months after the given one
+   */
+  static addMonths(date: LeasingDate, months: number): LeasingDate {
+    const monthIndex = date.yearOffset * 12 + date.month - 1 + months;
+    return { yearOffset: Math.floor(monthIndex / 12), month: (monthIndex % 12) + 1 };
+  }
+
+  /**
+   * Months from one date to another (negative when `to` is earlier)
+   */
+  static monthsBetween(from: LeasingDate, to: LeasingDate): number {
+    return (to.yearOffset - from.yearOffset) * 12 + to.month - from.month;
+  }
+
+  /**
+   * Buyout takes place in the month after the last installment
+   */
+  static getBuyoutDate(schedule: LeasingPayment[]): LeasingDate {
+    return this.addMonths(schedule[schedule.length - 1], 1);
+  }
+
+  /**
+   * Months after a private buyout during which the resale is still business revenue
+   */
+  static getPrivateResaleTaxPeriod(buyoutYear: number): number {
+    return buyoutYear >= 2022 ? PRIVATE_RESALE_TAX_PERIOD_MONTHS : PRIVATE_RESALE_TAX_PERIOD_MONTHS_BEFORE_2022;
+  }
+}
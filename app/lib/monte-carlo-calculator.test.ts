@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { MonteCarloCalculator, type MonteCarloOptions } from './monte-carlo-calculator';
+import type { ScenarioConfig } from './tax-calculator';
+
+const config: ScenarioConfig = {
+  yearlyRevenueNetto: 240000,
+  yearlyFixedCosts: 24000,
+  vatPayer: true,
+  vatRateMixed: 1,
+  zusType: 'duzy',
+  carInvestments: [],
+  equipmentInvestments: [],
+};
+
+const options: MonteCarloOptions = {
+  monthlyRevenueMean: 20000,
+  monthlyRevenueStdev: 3000,
+  idleMonths: 2,
+  idleMonthsProbability: 0.3,
+  runs: 200,
+  seed: 42,
+};
+
+describe('MonteCarloCalculator', () => {
+  it('gives identical results for the same seed', () => {
+    expect(MonteCarloCalculator.simulate(config, options)).toEqual(MonteCarloCalculator.simulate(config, options));
+  });
+
+  it('gives different results for different seeds', () => {
+    const first = MonteCarloCalculator.simulate(config, options);
+    const second = MonteCarloCalculator.simulate(config, { ...options, seed: 43 });
+
+    expect(second.revenuePercentiles).not.toEqual(first.revenuePercentiles);
+    expect(second.netCashPercentiles).not.toEqual(first.netCashPercentiles);
+  });
+
+  it('takes the idle months out of every idle year', () => {
+    const result = MonteCarloCalculator.simulate(config, {
+      ...options,
+      monthlyRevenueStdev: 0,
+      idleMonths: 3,
+      idleMonthsProbability: 1,
+    });
+
+    Object.values(result.revenuePercentiles).forEach(revenue => expect(revenue).toBeCloseTo(9 * 20000, 6));
+  });
+
+  it('counts how often each form wins', () => {
+    const result = MonteCarloCalculator.simulate(config, options);
+    const total = result.winProbability.ryczalt + result.winProbability.liniowy + result.winProbability.skala;
+
+    expect(total).toBeCloseTo(1, 10);
+  });
+});
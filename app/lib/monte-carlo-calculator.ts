@@ -0,0 +1,134 @@
+/**
+ * Monte Carlo simulation of revenue uncertainty
+ * Monthly revenue is drawn from a normal distribution, a year can also have N idle months
+ * (no contract) with a given probability. Every simulated year runs through
+ * TaxCalculator.compareAll, giving percentile bands of net cash per taxation form and how
+ * often each form wins. A seeded generator makes the results reproducible for the same parameters.
+ */
+
+import { TaxCalculator, type ScenarioConfig, type TaxationForm } from './tax-calculator';
+
+const TAXATION_FORMS: TaxationForm[] = ['ryczalt', 'liniowy', 'skala'];
+
+export const MONTE_CARLO_PERCENTILES = [10, 25, 50, 75, 90];
+
+export interface RevenueDistribution {
+  monthlyRevenueMean: number;
+  monthlyRevenueStdev: number;
+  idleMonths: number; // 0-11, months without revenue in an idle year
+  idleMonthsProbability: number; // 0-1, chance that a year has the idle months
+}
+
+export interface MonteCarloOptions extends RevenueDistribution {
+  runs: number;
+  seed: number;
+}
+
+export interface MonteCarloResult {
+  runs: number;
+  seed: number;
+  distribution: RevenueDistribution;
+  revenuePercentiles: Record<number, number>; // Yearly revenue
+  netCashPercentiles: Record<TaxationForm, Record<number, number>>;
+  winProbability: Record<TaxationForm, number>; // 0-1
+  expectedNetCash: Record<TaxationForm, number>;
+}
+
+export class MonteCarloCalculator {
+  /**
+   * Mulberry32 pseudo-random generator, uniform in [0, 1)
+   */
+  static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Standard normal sample (Box-Muller transform)
+   */
+  static sampleNormal(random: () => number): number {
+    const u = 1 - random(); // (0, 1], avoids log(0)
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Yearly revenue of one simulated year, negative months are cut to zero
+   */
+  static sampleYearlyRevenue(distribution: RevenueDistribution, random: () => number): number {
+    const idleMonths = random() < distribution.idleMonthsProbability ? distribution.idleMonths : 0;
+    let revenue = 0;
+    for (let month = 0; month < 12; month++) {
+      const sample = distribution.monthlyRevenueMean + distribution.monthlyRevenueStdev * this.sampleNormal(random);
+      revenue += month < idleMonths ? 0 : Math.max(0, sample);
+    }
+    return revenue;
+  }
+
+  /**
+   * Helper: Percentile of sorted values with linear interpolation
+   */
+  private static percentile(sorted: number[], p: number): number {
+    const index = ((sorted.length - 1) * p) / 100;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+  }
+
+  private static getPercentiles(values: number[]): Record<number, number> {
+    const sorted = [...values].sort((a, b) => a - b);
+    return Object.fromEntries(MONTE_CARLO_PERCENTILES.map(p => [p, this.percentile(sorted, p)]));
+  }
+
+  /**
+   * Run the simulation, the scenario revenue is replaced by the sampled one
+   */
+  static simulate(config: ScenarioConfig, options: MonteCarloOptions): MonteCarloResult {
+    const random = this.createRandom(options.seed);
+    const revenues: number[] = [];
+    const netCash: Record<TaxationForm, number[]> = { ryczalt: [], liniowy: [], skala: [] };
+    const wins: Record<TaxationForm, number> = { ryczalt: 0, liniowy: 0, skala: 0 };
+
+    for (let run = 0; run < options.runs; run++) {
+      const yearlyRevenueNetto = this.sampleYearlyRevenue(options, random);
+      const results = TaxCalculator.compareAll({ ...config, yearlyRevenueNetto });
+
+      revenues.push(yearlyRevenueNetto);
+      TAXATION_FORMS.forEach(form => netCash[form].push(results[form].netCashInHand));
+      const winner = TAXATION_FORMS.reduce((best, form) =>
+        results[form].netCashInHand > results[best].netCashInHand ? form : best
+      );
+      wins[winner]++;
+    }
+
+    const netCashPercentiles = {} as Record<TaxationForm, Record<number, number>>;
+    const winProbability = {} as Record<TaxationForm, number>;
+    const expectedNetCash = {} as Record<TaxationForm, number>;
+    TAXATION_FORMS.forEach(form => {
+      netCashPercentiles[form] = this.getPercentiles(netCash[form]);
+      winProbability[form] = wins[form] / options.runs;
+      expectedNetCash[form] = netCash[form].reduce((sum, value) => sum + value, 0) / options.runs;
+    });
+
+    return {
+      runs: options.runs,
+      seed: options.seed,
+      distribution: {
+        monthlyRevenueMean: options.monthlyRevenueMean,
+        monthlyRevenueStdev: options.monthlyRevenueStdev,
+        idleMonths: options.idleMonths,
+        idleMonthsProbability: options.idleMonthsProbability,
+      },
+      revenuePercentiles: this.getPercentiles(revenues),
+      netCashPercentiles,
+      winProbability,
+      expectedNetCash,
+    };
+  }
+}
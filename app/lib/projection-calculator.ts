@@ -0,0 +1,108 @@
+/**
+ * Multi-year projection for Polish JDG
+ * Runs every taxation form year by year with the tax year config of that year,
+ * carrying car leasing and depreciation schedules over from the purchase year
+ */
+
+import {
+  TaxCalculator,
+  type LeaseEndTimeline,
+  type ScenarioConfig,
+  type TaxResult,
+  type TaxYearConfigInput,
+} from './tax-calculator';
+
+/**
+ * Results of a single projected tax year
+ */
+export interface ProjectionYear {
+  year: number;
+  yearOffset: number; // 0 = year the investments were bought
+  ryczalt: TaxResult;
+  liniowy: TaxResult;
+  skala: TaxResult;
+  cumulativeNetCash: {
+    ryczalt: number;
+    liniowy: number;
+    skala: number;
+  };
+}
+
+export interface ProjectionResult {
+  startYear: number;
+  years: ProjectionYear[];
+  totalNetCash: {
+    ryczalt: number;
+    liniowy: number;
+    skala: number;
+  };
+  leaseEndTimelines: LeaseEndTimeline[]; // Leased cars with a buyout decision
+}
+
+export class ProjectionCalculator {
+  /**
+   * Config for the given year, or the latest earlier one when the year is not configured yet
+   */
+  static getConfigForYear(
+    year: number,
+    taxYearConfigs: TaxYearConfigInput[]
+  ): TaxYearConfigInput | undefined {
+    return taxYearConfigs
+      .filter(config => config.year <= year)
+      .sort((a, b) => b.year - a.year)[0];
+  }
+
+  /**
+   * Project the scenario over `years` tax years starting with the purchase year
+   */
+  static project(
+    config: ScenarioConfig,
+    startYear: number,
+    years: number,
+    taxYearConfigs: TaxYearConfigInput[]
+  ): ProjectionResult {
+    const purchaseTaxYearConfig = this.getConfigForYear(startYear, taxYearConfigs) ?? config.taxYearConfig;
+    const laterPurchaseTaxYearConfigs = Array.from({ length: years }, (_, yearOffset) =>
+      this.getConfigForYear(startYear + yearOffset, taxYearConfigs)
+    );
+    const cumulative = { ryczalt: 0, liniowy: 0, skala: 0 };
+
+    const projectedYears: ProjectionYear[] = Array.from({ length: years }, (_, yearOffset) => {
+      const year = startYear + yearOffset;
+      const results = TaxCalculator.compareAll({
+        ...config,
+        taxYearConfig: this.getConfigForYear(year, taxYearConfigs) ?? config.taxYearConfig,
+        purchaseTaxYearConfig,
+        laterPurchaseTaxYearConfigs,
+        yearOffset,
+      });
+
+      cumulative.ryczalt += results.ryczalt.netCashInHand;
+      cumulative.liniowy += results.liniowy.netCashInHand;
+      cumulative.skala += results.skala.netCashInHand;
+
+      return {
+        year,
+        yearOffset,
+        ...results,
+        cumulativeNetCash: { ...cumulative },
+      };
+    });
+
+    return {
+      startYear,
+      years: projectedYears,
+      totalNetCash: { ...cumulative },
+      leaseEndTimelines: config.carInvestments
+        .map(car =>
+          TaxCalculator.getLeaseEndTimeline(
+            car,
+            car.purchaseYearOffset
+              ? (laterPurchaseTaxYearConfigs[car.purchaseYearOffset] ?? config.taxYearConfig)
+              : purchaseTaxYearConfig
+          )
+        )
+        .filter((timeline): timeline is LeaseEndTimeline => timeline !== undefined),
+    };
+  }
+}
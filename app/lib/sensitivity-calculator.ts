@@ -0,0 +1,131 @@
+/**
+ * Sensitivity analysis of the scenario inputs
+ * Moves one input at a time down and up by the given percentage, everything else
+ * unchanged, and reports how net cash of every taxation form changes. The input with
+ * the widest swing is the one that drives the decision.
+ */
+
+import { TaxCalculator, type ScenarioConfig, type TaxationForm } from './tax-calculator';
+
+export type SensitivityInput = 'revenue' | 'fixedCosts' | 'carPrice' | 'equipmentCost' | 'purchaseMonth';
+
+const TAXATION_FORMS: TaxationForm[] = ['ryczalt', 'liniowy', 'skala'];
+
+export interface SensitivityRow {
+  input: SensitivityInput;
+  low: Record<TaxationForm, number>; // Net cash change with the input decreased
+  high: Record<TaxationForm, number>; // Net cash change with the input increased
+  lowBest: TaxationForm;
+  highBest: TaxationForm;
+  monthShift?: number; // Purchase month only: months moved earlier/later
+}
+
+export interface SensitivityResult {
+  percent: number;
+  baseline: Record<TaxationForm, number>; // Net cash of the scenario as configured
+  baselineBest: TaxationForm;
+  rows: SensitivityRow[]; // Widest swing first
+}
+
+export class SensitivityCalculator {
+  /**
+   * Helper: Net cash of every form
+   */
+  private static getNetCash(config: ScenarioConfig): Record<TaxationForm, number> {
+    const results = TaxCalculator.compareAll(config);
+    return {
+      ryczalt: results.ryczalt.netCashInHand,
+      liniowy: results.liniowy.netCashInHand,
+      skala: results.skala.netCashInHand,
+    };
+  }
+
+  private static getBest(netCash: Record<TaxationForm, number>): TaxationForm {
+    return TAXATION_FORMS.reduce((best, form) => (netCash[form] > netCash[best] ? form : best));
+  }
+
+  /**
+   * Months the purchase is moved by: the percentage of a year, at least one month
+   */
+  static getMonthShift(percent: number): number {
+    return Math.max(1, Math.round((12 * percent) / 100));
+  }
+
+  /**
+   * Scenario with one input scaled by `factor` (or the purchase month moved by `shift`)
+   */
+  static applyChange(config: ScenarioConfig, input: SensitivityInput, factor: number, shift: number): ScenarioConfig {
+    const moveMonth = (month: number) => Math.min(12, Math.max(1, month + shift));
+
+    switch (input) {
+      case 'revenue':
+        return { ...config, yearlyRevenueNetto: config.yearlyRevenueNetto * factor };
+      case 'fixedCosts':
+        return { ...config, yearlyFixedCosts: config.yearlyFixedCosts * factor };
+      case 'carPrice':
+        return {
+          ...config,
+          carInvestments: config.carInvestments.map(car => ({ ...car, carPriceNetto: car.carPriceNetto * factor })),
+        };
+      case 'equipmentCost':
+        return {
+          ...config,
+          equipmentInvestments: config.equipmentInvestments.map(equipment => ({
+            ...equipment,
+            costNetto: equipment.costNetto * factor,
+          })),
+        };
+      case 'purchaseMonth':
+        return {
+          ...config,
+          carInvestments: config.carInvestments.map(car => ({ ...car, monthOfPurchase: moveMonth(car.monthOfPurchase) })),
+          equipmentInvestments: config.equipmentInvestments.map(equipment => ({
+            ...equipment,
+            monthOfPurchase: moveMonth(equipment.monthOfPurchase),
+          })),
+        };
+    }
+  }
+
+  /**
+   * Run the analysis for every input present in the scenario
+   */
+  static analyze(config: ScenarioConfig, percent: number): SensitivityResult {
+    const baseline = this.getNetCash(config);
+    const hasInvestments = config.carInvestments.length > 0 || config.equipmentInvestments.length > 0;
+    const inputs: SensitivityInput[] = [
+      'revenue',
+      'fixedCosts',
+      ...(config.carInvestments.length > 0 ? (['carPrice'] as const) : []),
+      ...(config.equipmentInvestments.length > 0 ? (['equipmentCost'] as const) : []),
+      ...(hasInvestments ? (['purchaseMonth'] as const) : []),
+    ];
+    const shift = this.getMonthShift(percent);
+
+    const rows = inputs.map(input => {
+      const lowNetCash = this.getNetCash(this.applyChange(config, input, 1 - percent / 100, -shift));
+      const highNetCash = this.getNetCash(this.applyChange(config, input, 1 + percent / 100, shift));
+      const low = {} as Record<TaxationForm, number>;
+      const high = {} as Record<TaxationForm, number>;
+      TAXATION_FORMS.forEach(form => {
+        low[form] = lowNetCash[form] - baseline[form];
+        high[form] = highNetCash[form] - baseline[form];
+      });
+
+      return {
+        input,
+        low,
+        high,
+        lowBest: this.getBest(lowNetCash),
+        highBest: this.getBest(highNetCash),
+        ...(input === 'purchaseMonth' ? { monthShift: shift } : {}),
+      };
+    });
+
+    const swing = (row: SensitivityRow) =>
+      Math.max(...TAXATION_FORMS.map(form => Math.abs(row.high[form] - row.low[form])));
+    rows.sort((a, b) => swing(b) - swing(a));
+
+    return { percent, baseline, baselineBest: this.getBest(baseline), rows };
+  }
+}
@@ -4,14 +4,35 @@
  * DO NOT use AI/LLM for these calculations - all logic must be deterministic
  */
 
+import { ContributionCalculator, DEFAULT_2026_CONFIG, type TaxYearConfig } from './contribution-calculator';
+import {
+  CAR_KST_GROUP,
+  DEFAULT_EQUIPMENT_KST_GROUP,
+  DepreciationCalculator,
+  type AssetRegisterEntry,
+  type DepreciationMethod,
+} from './depreciation-calculator';
+import {
+  LeasingCalculator,
+  type LeaseEndDecision,
+  type LeasingDate,
+  type LeasingPayment,
+} from './leasing-calculator';
+
 export type EngineType = 'combustion' | 'hybrid_plugin' | 'electric';
-export type FinancingMethod = 'cash' | 'leasing';
+export type FinancingMethod = 'cash' | 'leasing' | 'financial_leasing' | 'loan'; // leasing = operating leasing
 export type UsageType = 'mixed' | 'full_business';
 export type ZusType = 'ulga_na_start' | 'preferencyjny' | 'maly_plus' | 'duzy';
 export type TaxationForm = 'liniowy' | 'skala' | 'ryczalt';
 
 /**
- * 2026 Car Depreciation Limits (KUP - Koszt Uzyskania Przychodu)
+ * Version of the calculation engine stored with every saved result.
+ * Bump it whenever a change to the calculations alters the results for the same inputs.
+ */
+export const ENGINE_VERSION = '1.2.0';
+
+/**
+ * Default 2026 Car Depreciation Limits (KUP - Koszt Uzyskania Przychodu)
  */
 const CAR_DEPRECIATION_LIMITS: Record<EngineType, number> = {
   combustion: 100_000,
@@ -20,13 +41,34 @@ const CAR_DEPRECIATION_LIMITS: Record<EngineType, number> = {
 };
 
 /**
- * ZUS (Social Insurance) monthly rates for 2026 (approximate values)
+ * Share of car running costs deductible from PIT for mixed use (100% with VAT-26 and a mileage log)
  */
-const ZUS_MONTHLY_RATES = {
-  ulga_na_start: 0, // First 6 months free
-  preferencyjny: 650, // Preferential rate (24 months)
-  maly_plus: 1_700, // Small ZUS Plus
-  duzy: 1_900, // Full ZUS
+const CAR_RUNNING_COSTS_MIXED_DEDUCTION = 0.75;
+
+/**
+ * Default 2026 de minimis one-off depreciation limit (50 000 EUR converted to PLN)
+ */
+const DE_MINIMIS_LIMIT = 213_000;
+
+/**
+ * Default solidarity levy (danina solidarnościowa) - 4% of income above 1M PLN
+ */
+const SOLIDARITY_LEVY = {
+  threshold: 1_000_000,
+  rate: 0.04,
+};
+
+/**
+ * CO2 emission (g/km) from which a plug-in hybrid falls back to the combustion limit
+ */
+const LOW_EMISSION_CO2_THRESHOLD = 50;
+
+/**
+ * Default 2026 VAT rules
+ */
+const VAT_RULES = {
+  rate: 0.23, // 23% VAT in Poland
+  mixedUseDeduction: 0.5, // 50% deductible for mixed use
 };
 
 /**
@@ -39,16 +81,27 @@ const HEALTH_INSURANCE = {
 };
 
 /**
- * Ryczałt (Lump Sum) rates by industry
+ * Ryczałt (Lump Sum) rates catalogue - rate depends on the PKD/PKWiU activity
  */
-const RYCZALT_RATES = {
-  it_services: 0.12, // 12% for IT services
-  trade: 0.03, // 3% for trade
-  services_general: 0.085, // 8.5% for general services
-};
+export const RYCZALT_RATES: { rate: number; label: string }[] = [
+  { rate: 0.02, label: '2% - sprzedaż nieprzetworzonych produktów rolnych' },
+  { rate: 0.03, label: '3% - handel, gastronomia' },
+  { rate: 0.055, label: '5,5% - produkcja, budownictwo' },
+  { rate: 0.085, label: '8,5% - pozostałe usługi, najem do 100 000 PLN' },
+  { rate: 0.1, label: '10% - obrót nieruchomościami' },
+  { rate: 0.12, label: '12% - usługi IT (programowanie)' },
+  { rate: 0.14, label: '14% - usługi inżynieryjne, architektoniczne, ochrona zdrowia' },
+  { rate: 0.15, label: '15% - usługi doradcze, finansowe, reklamowe' },
+  { rate: 0.17, label: '17% - wolne zawody' },
+];
+
+/**
+ * Default revenue split: 100% IT services
+ */
+export const DEFAULT_RYCZALT_REVENUE_SPLIT: RyczaltRevenueShare[] = [{ rate: 0.12, percent: 100 }];
 
 /**
- * Tax scale brackets for 2026
+ * Default tax scale brackets (2026), used when no tax year config is given
  */
 const TAX_SCALE_BRACKETS = {
   tax_free_allowance: 30_000,
@@ -57,23 +110,84 @@ const TAX_SCALE_BRACKETS = {
   second_bracket_rate: 0.32, // 32% above ~120k
 };
 
+/**
+ * Default linear tax rate (2026)
+ */
+const LINEAR_TAX_RATE = 0.19;
+
 export interface CarInvestment {
+  id?: string; // Stored investment id, when loaded from a scenario
   name: string;
   carPriceNetto: number;
   engineType: EngineType;
   financingMethod: FinancingMethod;
   usageType: UsageType;
-  // Leasing specific
+  // Leasing specific, initial payment, months and rate also describe a loan
   leasingInitialPaymentPercent?: number;
   leasingMonths?: number;
-  leasingBuyoutPercent?: number;
+  leasingBuyoutPercent?: number; // Not used for loans
+  leasingInterestRate?: number; // Yearly, WIBOR + margin
+  leasingMonthlyInstallment?: number; // Netto installment from the offer, overrides the rate
+  leasingFees?: number; // One-off fees netto
+  leasingInsuranceMonthly?: number;
+  co2Emission?: number; // g/km (WLTP), relevant for plug-in hybrids
+  // Running costs (netto)
+  fuelMonthly?: number; // Fuel or charging
+  insuranceYearly?: number; // OC/NNW, VAT exempt
+  acInsuranceYearly?: number; // VAT exempt, deductible in the limit / price ratio
+  serviceYearly?: number;
+  tyresYearly?: number;
+  // End of leasing: no decision = car returned to the lessor
+  leaseEndDecision?: LeaseEndDecision;
+  resaleMonthsAfterBuyout?: number; // No value = car is kept
+  resalePriceNetto?: number;
   monthOfPurchase: number; // 1-12
+  purchaseYearOffset?: number; // Tax years after the first projected year the car is bought in, defaults to 0
+}
+
+/**
+ * Tax and cash effect of a leased car's buyout and resale in a single month
+ */
+export interface LeaseEndEntry extends LeasingDate {
+  kind: 'buyout' | 'depreciation' | 'resale';
+  revenue: number; // Business revenue from the resale
+  deductible: number; // Tax-deductible cost
+  cost: number; // Cash paid
+  taxFreeIncome: number; // Proceeds of a private resale after the tax period
+  vat: number; // Recoverable VAT, before the VAT payer share
+}
+
+/**
+ * Money paid for an investment in a single month: the price, loan or leasing payments and VAT
+ */
+export interface InvestmentPayment extends LeasingDate {
+  netto: number;
+  vat: number; // VAT paid, recovered separately
+}
+
+/**
+ * Key dates of a leased car shown in the results
+ */
+export interface LeaseEndTimelineEvent extends LeasingDate {
+  kind: 'leasing_start' | 'last_installment' | 'buyout' | 'tax_free_from' | 'resale';
+  amount?: number;
+  taxable?: boolean; // Resale only: business revenue
+}
+
+export interface LeaseEndTimeline {
+  carName: string;
+  decision: LeaseEndDecision;
+  events: LeaseEndTimelineEvent[];
 }
 
 export interface EquipmentInvestment {
+  id?: string; // Stored investment id, when loaded from a scenario
   name: string;
   costNetto: number;
-  monthOfPurchase: number; // 1-12
+  monthOfPurchase: number; // 1-12, month the equipment is put into use
+  kstGroup?: string; // Defaults to KŚT 491 (computers)
+  depreciationMethod?: DepreciationMethod; // Defaults to linear
+  purchaseYearOffset?: number; // Tax years after the first projected year the equipment is bought in, defaults to 0
 }
 
 export interface TaxYearConfigInput {
@@ -90,6 +204,29 @@ export interface TaxYearConfigInput {
   healthInsuranceRateSkala: number;
   healthInsuranceRateLiniowy: number;
   healthInsuranceLimitLinear: number;
+  healthInsuranceMinBaseRatio: number; // Minimum health base as a share of minimum wage (skala & liniowy)
+  taxFreeAllowance: number; // Kwota wolna od podatku (skala)
+  taxScaleThreshold: number; // Income where the upper skala rate starts
+  taxScaleLowerRate: number;
+  taxScaleUpperRate: number;
+  linearTaxRate: number;
+  carLimitCombustion: number;
+  carLimitLowEmission: number; // Plug-in hybrids below the CO2 threshold
+  carLimitElectric: number; // Electric & hydrogen
+  carLowEmissionCo2Threshold: number; // g/km
+  vatRate: number;
+  carVatMixedDeduction: number; // Deductible VAT share for mixed-use cars
+  solidarityLevyThreshold: number;
+  solidarityLevyRate: number;
+  deMinimisLimit: number; // Yearly one-off depreciation cap in PLN
+}
+
+/**
+ * Part of revenue taxed with a given ryczałt rate (mixed activity)
+ */
+export interface RyczaltRevenueShare {
+  rate: number; // e.g. 0.12 for 12%
+  percent: number; // Share of revenue, 0-100
 }
 
 export interface ScenarioConfig {
@@ -98,9 +235,25 @@ export interface ScenarioConfig {
   vatPayer: boolean;
   vatRateMixed: number; // 1.0 = 100% VAT deductible
   zusType: ZusType;
+  ryczaltRevenueSplit?: RyczaltRevenueShare[]; // Defaults to 100% at 12%
   carInvestments: CarInvestment[];
   equipmentInvestments: EquipmentInvestment[];
   taxYearConfig?: TaxYearConfigInput; // Optional: for configurable rates
+  yearOffset?: number; // Tax years since the investments were bought (0 = year of purchase)
+  purchaseTaxYearConfig?: TaxYearConfigInput; // Car limits of the purchase year, defaults to taxYearConfig
+  laterPurchaseTaxYearConfigs?: (TaxYearConfigInput | undefined)[]; // Indexed by purchaseYearOffset
+}
+
+/**
+ * Yearly social security (ZUS) contributions split into components
+ */
+export interface ZusBreakdown {
+  retirement: number; // Emerytalne
+  disability: number; // Rentowe
+  accident: number; // Wypadkowe
+  sickness: number; // Chorobowe (dobrowolne)
+  workFund: number; // Fundusz Pracy
+  solidarityFund: number; // Fundusz Solidarnościowy
 }
 
 export interface TaxResult {
@@ -109,29 +262,54 @@ export interface TaxResult {
   totalCosts: number;
   taxableIncome: number;
   incomeTax: number;
+  solidarityLevy: number; // Danina solidarnościowa (liniowy & skala only)
   healthInsurance: number;
   zusTotal: number;
+  zusBreakdown: ZusBreakdown;
   netCashInHand: number;
   breakdown: {
     carDepreciationDeduction: number;
+    carRunningCostsDeduction: number; // Fuel, insurance, service and tyres deducted from income
+    carBuyoutDeduction: number; // Depreciation and resale of bought-out leased cars
     equipmentDepreciationDeduction: number;
+    socialZusDeduction: number; // Social ZUS deducted from income (revenue for ryczałt)
+    healthInsuranceDeduction: number; // Part of health insurance deducted from the tax base
     vatBenefit: number;
   };
 }
 
 export class TaxCalculator {
   /**
-   * Helper: Get effective ZUS monthly cost from config
+   * Helper: Map flat tax year config (as stored in D1) to the ContributionCalculator format
    */
-  private static getZUSMonthly(zusType: ZusType, config?: TaxYearConfigInput): number {
-    // For now, keep hardcoded values - rates don't vary by year
-    const ZUS_MONTHLY_RATES = {
-      ulga_na_start: 0,
-      preferencyjny: 650,
-      maly_plus: 1_700,
-      duzy: 1_900,
+  static toContributionConfig(config?: TaxYearConfigInput): TaxYearConfig {
+    if (!config) {
+      return DEFAULT_2026_CONFIG;
+    }
+    return {
+      year: config.year,
+      minimumWageGross: config.minimumWageGross,
+      averageWagePrognosis: config.averageWagePrognosis,
+      averageWageQ4PreviousYear: config.averageWageQ4PreviousYear,
+      socialSecurityRates: {
+        retirement: config.retirementRate,
+        disability: config.disabilityRate,
+        accident: config.accidentRate,
+        sickness: config.sicknessRate,
+      },
+      workFundRate: config.workFundRate,
+      solidarityFundRate: config.solidarityFundRate,
+      healthInsuranceRate: {
+        skala: config.healthInsuranceRateSkala,
+        liniowy: config.healthInsuranceRateLiniowy,
+      },
+      minHealthInsuranceBaseRatio: config.healthInsuranceMinBaseRatio,
+      minHealthInsuranceMonthly:
+        config.minimumWageGross * config.healthInsuranceMinBaseRatio * config.healthInsuranceRateSkala,
+      healthInsuranceLimits: {
+        linear: config.healthInsuranceLimitLinear,
+      },
     };
-    return ZUS_MONTHLY_RATES[zusType];
   }
 
   /**
@@ -159,169 +337,892 @@ export class TaxCalculator {
   }
 
   /**
-   * Calculate car depreciation deduction for 2026
+   * Helper: Get effective tax scale brackets from config
+   */
+  private static getTaxScaleBrackets(config?: TaxYearConfigInput): typeof TAX_SCALE_BRACKETS {
+    if (config) {
+      return {
+        tax_free_allowance: config.taxFreeAllowance,
+        first_bracket_rate: config.taxScaleLowerRate,
+        first_bracket_limit: config.taxScaleThreshold,
+        second_bracket_rate: config.taxScaleUpperRate,
+      };
+    }
+    return TAX_SCALE_BRACKETS;
+  }
+
+  /**
+   * Helper: Get effective linear tax rate from config
+   */
+  static getLinearTaxRate(config?: TaxYearConfigInput): number {
+    return config ? config.linearTaxRate : LINEAR_TAX_RATE;
+  }
+
+  /**
+   * Helper: Get effective solidarity levy threshold and rate from config
+   */
+  private static getSolidarityLevy(config?: TaxYearConfigInput): typeof SOLIDARITY_LEVY {
+    if (config) {
+      return {
+        threshold: config.solidarityLevyThreshold,
+        rate: config.solidarityLevyRate,
+      };
+    }
+    return SOLIDARITY_LEVY;
+  }
+
+  /**
+   * Helper: Get effective VAT rules from config
+   */
+  static getVATRules(config?: TaxYearConfigInput): typeof VAT_RULES {
+    if (config) {
+      return {
+        rate: config.vatRate,
+        mixedUseDeduction: config.carVatMixedDeduction,
+      };
+    }
+    return VAT_RULES;
+  }
+
+  /**
+   * Car depreciation limit for the engine type. Plug-in hybrids with known CO2
+   * emission at or above the threshold are treated as combustion cars.
    */
-  static calculateCarDepreciation(car: CarInvestment): number {
-    const limit = CAR_DEPRECIATION_LIMITS[car.engineType];
+  static getCarDepreciationLimit(
+    car: Pick<CarInvestment, 'engineType' | 'co2Emission'>,
+    config?: TaxYearConfigInput
+  ): number {
+    const limits: Record<EngineType, number> = config
+      ? {
+          combustion: config.carLimitCombustion,
+          hybrid_plugin: config.carLimitLowEmission,
+          electric: config.carLimitElectric,
+        }
+      : CAR_DEPRECIATION_LIMITS;
+    const co2Threshold = config ? config.carLowEmissionCo2Threshold : LOW_EMISSION_CO2_THRESHOLD;
 
+    if (car.engineType === 'hybrid_plugin' && car.co2Emission !== undefined && car.co2Emission >= co2Threshold) {
+      return limits.combustion;
+    }
+    return limits[car.engineType];
+  }
+
+  /**
+   * Helper: Get the statutory yearly minimum health insurance for skala & liniowy
+   */
+  private static getMinHealthInsuranceYearly(config?: TaxYearConfigInput): number {
+    return this.toContributionConfig(config).minHealthInsuranceMonthly * 12;
+  }
+
+  /**
+   * Whether the car is a fixed asset of the business: bought for cash, with a loan or in financial leasing
+   */
+  static isOwnedCar(car: Pick<CarInvestment, 'financingMethod'>): boolean {
+    return car.financingMethod !== 'leasing';
+  }
+
+  /**
+   * Leasing or loan payment schedule of a car, throws when the financing terms are missing.
+   * Only operating leasing installments carry VAT: a loan is VAT exempt and financial
+   * leasing is invoiced with VAT on the whole price upfront.
+   */
+  static getLeasingSchedule(car: CarInvestment, config?: TaxYearConfigInput): LeasingPayment[] {
+    const isLoan = car.financingMethod === 'loan';
+    if (
+      !car.leasingMonths ||
+      car.leasingInitialPaymentPercent === undefined ||
+      (!isLoan && car.leasingBuyoutPercent === undefined)
+    ) {
+      throw new Error('Financing parameters required for leasing and loan financing methods');
+    }
+
+    return LeasingCalculator.generateSchedule(
+      {
+        carPriceNetto: car.carPriceNetto,
+        initialPaymentPercent: car.leasingInitialPaymentPercent,
+        months: car.leasingMonths,
+        buyoutPercent: isLoan ? 0 : (car.leasingBuyoutPercent ?? 0),
+        interestRate: car.leasingInterestRate,
+        monthlyInstallment: car.leasingMonthlyInstallment,
+        fees: car.leasingFees,
+        insuranceMonthly: car.leasingInsuranceMonthly,
+        monthOfPurchase: car.monthOfPurchase,
+      },
+      car.financingMethod === 'leasing' ? this.getVATRules(config).rate : 0
+    );
+  }
+
+  /**
+   * Share of the car price within the depreciation limit: applies to leasing capital and AC insurance
+   */
+  static getCarLimitRatio(car: CarInvestment, config?: TaxYearConfigInput): number {
+    return Math.min(1, this.getCarDepreciationLimit(car, config) / car.carPriceNetto);
+  }
+
+  /**
+   * Asset register entry for a car bought for cash (value capped at the depreciation limit)
+   */
+  static toCarAsset(car: CarInvestment, config?: TaxYearConfigInput): AssetRegisterEntry {
+    return {
+      name: car.name,
+      initialValue: Math.min(car.carPriceNetto, this.getCarDepreciationLimit(car, config)),
+      kstGroup: CAR_KST_GROUP,
+      method: 'linear',
+      monthPutIntoUse: car.monthOfPurchase,
+    };
+  }
+
+  /**
+   * Asset register entry for equipment
+   */
+  static toEquipmentAsset(equipment: EquipmentInvestment): AssetRegisterEntry {
+    return {
+      name: equipment.name,
+      initialValue: equipment.costNetto,
+      kstGroup: equipment.kstGroup ?? DEFAULT_EQUIPMENT_KST_GROUP,
+      method: equipment.depreciationMethod ?? 'linear',
+      monthPutIntoUse: equipment.monthOfPurchase,
+    };
+  }
+
+  /**
+   * Calculate car depreciation deduction for a tax year (yearOffset 0 = year of purchase)
+   */
+  static calculateCarDepreciation(car: CarInvestment, config?: TaxYearConfigInput, yearOffset = 0): number {
+    const deductibleRatio = this.getCarLimitRatio(car, config);
+
+    if (car.financingMethod === 'leasing') {
+      // Leasing: payments made in this tax year, limit ratio applies to the capital part only
+      return this.getLeasingSchedule(car, config)
+        .filter(payment => payment.yearOffset === yearOffset)
+        .reduce((sum, payment) => sum + LeasingCalculator.getDeductibleAmount(payment, deductibleRatio), 0);
+    }
+
+    // Owned car: depreciation (KŚT 741, 20%) is limited by the engine type limit
+    const schedule = DepreciationCalculator.generateSchedule(this.toCarAsset(car, config));
+    const depreciation = DepreciationCalculator.getYearlyAmount(schedule, yearOffset);
     if (car.financingMethod === 'cash') {
-      // For cash purchase, depreciation is limited by the engine type limit
-      const depreciableAmount = Math.min(car.carPriceNetto, limit);
-
-      // Simplified: 20% depreciation rate (5 years) for first year
-      // In reality, this would be calculated monthly based on purchase month
-      const monthsInYear = 13 - car.monthOfPurchase; // Months remaining in year
-      return (depreciableAmount * 0.20 * monthsInYear) / 12;
-    } else {
-      // Leasing
-      if (!car.leasingMonths || !car.leasingInitialPaymentPercent || !car.leasingBuyoutPercent) {
-        throw new Error('Leasing parameters required for leasing financing method');
+      return depreciation;
+    }
+
+    // Loan and financial leasing: capital is depreciated, interest and fees are deducted when paid
+    return this.getLeasingSchedule(car, config)
+      .filter(payment => payment.yearOffset === yearOffset)
+      .reduce((sum, payment) => sum + LeasingCalculator.getFinanceCost(payment, deductibleRatio), depreciation);
+  }
+
+  /**
+   * Calculate VAT benefit from a car in a tax year: the purchase VAT for cash,
+   * VAT on the payments made that year for leasing
+   */
+  static calculateCarVATBenefit(car: CarInvestment, config?: TaxYearConfigInput, yearOffset = 0): number {
+    const vatAmount = this.isOwnedCar(car)
+      ? yearOffset === 0
+        ? car.carPriceNetto * this.getVATRules(config).rate
+        : 0
+      : this.getLeasingSchedule(car, config)
+          .filter(payment => payment.yearOffset === yearOffset)
+          .reduce((sum, payment) => sum + payment.vat, 0);
+
+    return vatAmount * this.getCarVATDeductibleShare(car, config);
+  }
+
+  /**
+   * Share of VAT on car purchases and payments that can be deducted: 100% for business use,
+   * partially for mixed use
+   */
+  static getCarVATDeductibleShare(car: Pick<CarInvestment, 'usageType'>, config?: TaxYearConfigInput): number {
+    return car.usageType === 'full_business' ? 1 : this.getVATRules(config).mixedUseDeduction;
+  }
+
+  /**
+   * Last month a car is used in the business: leased cars until they are returned or bought
+   * out to private assets, cars bought out to the business until they are sold
+   */
+  private static getCarEndOfBusinessUse(car: CarInvestment, config?: TaxYearConfigInput): LeasingDate | undefined {
+    if (this.isOwnedCar(car)) {
+      return undefined;
+    }
+
+    const schedule = this.getLeasingSchedule(car, config);
+    if (car.leaseEndDecision !== 'business_buyout') {
+      return schedule[schedule.length - 1];
+    }
+    if (car.resaleMonthsAfterBuyout === undefined) {
+      return undefined;
+    }
+    return LeasingCalculator.addMonths(LeasingCalculator.getBuyoutDate(schedule), car.resaleMonthsAfterBuyout);
+  }
+
+  /**
+   * Months of a tax year (1-12) the car is used in the business
+   */
+  static getCarMonthsInUse(car: CarInvestment, config?: TaxYearConfigInput, yearOffset = 0): number[] {
+    const start: LeasingDate = { yearOffset: 0, month: car.monthOfPurchase };
+    const end = this.getCarEndOfBusinessUse(car, config);
+
+    return Array.from({ length: 12 }, (_, i) => i + 1).filter(month => {
+      const date: LeasingDate = { yearOffset, month };
+      return (
+        LeasingCalculator.monthsBetween(start, date) >= 0 &&
+        (end === undefined || LeasingCalculator.monthsBetween(date, end) >= 0)
+      );
+    });
+  }
+
+  /**
+   * Car running costs in a tax year: amount paid, PIT-deductible part (75% mixed / 100% business),
+   * VAT paid and its recoverable part (50% mixed / 100% business, insurance is VAT exempt).
+   * AC insurance is deductible only in the ratio of the purchase year limit to the car price.
+   */
+  static calculateCarRunningCosts(
+    car: CarInvestment,
+    config?: TaxYearConfigInput,
+    yearOffset = 0,
+    purchaseConfig: TaxYearConfigInput | undefined = config
+  ): { cost: number; deductible: number; vatPaid: number; vat: number } {
+    const monthsInUse = this.getCarMonthsInUse(car, purchaseConfig, yearOffset).length;
+    const vatable =
+      (car.fuelMonthly ?? 0) * monthsInUse +
+      (((car.serviceYearly ?? 0) + (car.tyresYearly ?? 0)) * monthsInUse) / 12;
+    const insurance = ((car.insuranceYearly ?? 0) * monthsInUse) / 12;
+    const acInsurance = ((car.acInsuranceYearly ?? 0) * monthsInUse) / 12;
+    const isFullBusiness = car.usageType === 'full_business';
+    const vatPaid = vatable * this.getVATRules(config).rate;
+
+    return {
+      cost: vatable + insurance + acInsurance,
+      deductible:
+        (vatable + insurance + acInsurance * this.getCarLimitRatio(car, purchaseConfig)) *
+        (isFullBusiness ? 1 : CAR_RUNNING_COSTS_MIXED_DEDUCTION),
+      vatPaid,
+      vat: vatPaid * this.getCarVATDeductibleShare(car, config),
+    };
+  }
+
+  /**
+   * Running costs of all cars for the year; VAT is recovered only by VAT payers
+   */
+  static calculateInvestmentsRunningCosts(config: ScenarioConfig): {
+    cost: number;
+    deductible: number;
+    vatPaid: number;
+    vatBenefit: number;
+  } {
+    if (this.hasLaterPurchases(config)) {
+      return this.sumByPurchaseYear(config, part => this.calculateInvestmentsRunningCosts(part), {
+        cost: 0,
+        deductible: 0,
+        vatPaid: 0,
+        vatBenefit: 0,
+      });
+    }
+
+    return config.carInvestments.reduce(
+      (sum, car) => {
+        const running = this.calculateCarRunningCosts(
+          car,
+          config.taxYearConfig,
+          config.yearOffset ?? 0,
+          config.purchaseTaxYearConfig ?? config.taxYearConfig
+        );
+        return {
+          cost: sum.cost + running.cost,
+          deductible: sum.deductible + running.deductible,
+          vatPaid: sum.vatPaid + running.vatPaid,
+          vatBenefit: sum.vatBenefit + (config.vatPayer ? running.vat * config.vatRateMixed : 0),
+        };
+      },
+      { cost: 0, deductible: 0, vatPaid: 0, vatBenefit: 0 }
+    );
+  }
+
+  /**
+   * Buyout and resale of a leased car month by month. A business buyout becomes a fixed asset
+   * depreciated until it is sold, the resale is revenue less the remaining book value.
+   * A private buyout is paid privately; its resale within the tax period is revenue less the
+   * buyout price, later it is tax-free. The cost is the gross buyout invoice actually paid.
+   */
+  static getLeaseEndEntries(car: CarInvestment, config?: TaxYearConfigInput): LeaseEndEntry[] {
+    if (this.isOwnedCar(car) || !car.leaseEndDecision) {
+      return [];
+    }
+
+    const schedule = this.getLeasingSchedule(car, config);
+    const buyout = LeasingCalculator.getBuyoutDate(schedule);
+    const buyoutPrice = car.carPriceNetto * ((car.leasingBuyoutPercent ?? 0) / 100);
+    const buyoutGross = buyoutPrice * (1 + this.getVATRules(config).rate);
+    const resale =
+      car.resaleMonthsAfterBuyout === undefined
+        ? undefined
+        : LeasingCalculator.addMonths(buyout, car.resaleMonthsAfterBuyout);
+    const resalePrice = car.resalePriceNetto ?? 0;
+    const empty = { revenue: 0, deductible: 0, cost: 0, taxFreeIncome: 0, vat: 0 };
+
+    if (car.leaseEndDecision === 'private_buyout') {
+      const entries: LeaseEndEntry[] = [{ ...buyout, ...empty, kind: 'buyout', cost: buyoutGross }];
+      if (resale) {
+        entries.push(
+          this.isResaleTaxable(car, buyout, config)
+            ? { ...resale, ...empty, kind: 'resale', revenue: resalePrice, deductible: buyoutPrice }
+            : { ...resale, ...empty, kind: 'resale', taxFreeIncome: resalePrice }
+        );
       }
+      return entries;
+    }
 
-      const totalLeasingCost = car.carPriceNetto;
-      const initialPayment = totalLeasingCost * (car.leasingInitialPaymentPercent / 100);
-      const buyout = totalLeasingCost * (car.leasingBuyoutPercent / 100);
-      const capitalPart = totalLeasingCost - initialPayment - buyout;
+    // Business buyout: VAT on the buyout invoice follows the usage rules
+    const entries: LeaseEndEntry[] = [
+      {
+        ...buyout,
+        ...empty,
+        kind: 'buyout',
+        cost: buyoutGross,
+        vat: buyoutPrice * this.getVATRules(config).rate * this.getCarVATDeductibleShare(car, config),
+      },
+    ];
 
-      // If car price exceeds limit, only proportional part is deductible
-      const deductibleRatio = Math.min(1, limit / car.carPriceNetto);
+    // Depreciation ends in the month of sale
+    const asset: AssetRegisterEntry = {
+      name: car.name,
+      initialValue: Math.min(buyoutPrice, this.getCarDepreciationLimit(car, config)),
+      kstGroup: CAR_KST_GROUP,
+      method: 'linear',
+      monthPutIntoUse: buyout.month,
+    };
+    let bookValue = asset.initialValue;
+    DepreciationCalculator.generateSchedule(asset)
+      .map(entry => ({ ...entry, yearOffset: entry.yearOffset + buyout.yearOffset }))
+      .filter(entry => !resale || LeasingCalculator.monthsBetween(entry, resale) >= 0)
+      .forEach(entry => {
+        bookValue = entry.bookValue;
+        entries.push({ ...entry, ...empty, kind: 'depreciation', deductible: entry.amount });
+      });
 
-      // Calculate first year's installments
-      const monthsInYear = Math.min(13 - car.monthOfPurchase, car.leasingMonths);
-      const monthlyCapital = capitalPart / car.leasingMonths;
-      const yearlyCapitalDeductible = monthlyCapital * monthsInYear * deductibleRatio;
+    if (resale) {
+      entries.push({ ...resale, ...empty, kind: 'resale', revenue: resalePrice, deductible: bookValue });
+    }
+    return entries;
+  }
 
-      // Initial payment deduction
-      const initialPaymentDeductible = initialPayment * deductibleRatio;
+  /**
+   * Buyout and resale of all leased cars in the tax year
+   */
+  static calculateInvestmentsLeaseEnd(config: ScenarioConfig): {
+    revenue: number;
+    deductible: number;
+    cost: number;
+    taxFreeIncome: number;
+    vatBenefit: number;
+  } {
+    if (this.hasLaterPurchases(config)) {
+      return this.sumByPurchaseYear(config, part => this.calculateInvestmentsLeaseEnd(part), {
+        revenue: 0,
+        deductible: 0,
+        cost: 0,
+        taxFreeIncome: 0,
+        vatBenefit: 0,
+      });
+    }
 
-      // Interest is 100% deductible (simplified - we assume 5% interest)
-      const interestRate = 0.05;
-      const yearlyInterest = (capitalPart * interestRate * monthsInYear) / 12;
+    const yearOffset = config.yearOffset ?? 0;
+    const purchaseConfig = config.purchaseTaxYearConfig ?? config.taxYearConfig;
+    const total = { revenue: 0, deductible: 0, cost: 0, taxFreeIncome: 0, vatBenefit: 0 };
 
-      return initialPaymentDeductible + yearlyCapitalDeductible + yearlyInterest;
+    config.carInvestments.forEach(car => {
+      this.getLeaseEndEntries(car, purchaseConfig)
+        .filter(entry => entry.yearOffset === yearOffset)
+        .forEach(entry => {
+          total.revenue += entry.revenue;
+          total.deductible += entry.deductible;
+          total.cost += entry.cost;
+          total.taxFreeIncome += entry.taxFreeIncome;
+          total.vatBenefit += config.vatPayer ? entry.vat * config.vatRateMixed : 0;
+        });
+    });
+
+    return total;
+  }
+
+  /**
+   * Whether the resale after the buyout is business revenue: always for a business buyout,
+   * within the tax period for a private one
+   */
+  private static isResaleTaxable(car: CarInvestment, buyout: LeasingDate, config?: TaxYearConfigInput): boolean {
+    if (car.leaseEndDecision === 'business_buyout') {
+      return true;
     }
+    const buyoutYear = (config?.year ?? DEFAULT_2026_CONFIG.year) + buyout.yearOffset;
+    return (car.resaleMonthsAfterBuyout ?? 0) <= LeasingCalculator.getPrivateResaleTaxPeriod(buyoutYear);
   }
 
   /**
-   * Calculate VAT benefit from car purchase
+   * Timeline of a leased car from the initial payment to the buyout and resale
    */
-  static calculateCarVATBenefit(car: CarInvestment): number {
-    const vatRate = 0.23; // 23% VAT in Poland
-    const vatAmount = car.carPriceNetto * vatRate;
+  static getLeaseEndTimeline(car: CarInvestment, config?: TaxYearConfigInput): LeaseEndTimeline | undefined {
+    if (this.isOwnedCar(car) || !car.leaseEndDecision) {
+      return undefined;
+    }
+
+    const schedule = this.getLeasingSchedule(car, config);
+    const buyout = LeasingCalculator.getBuyoutDate(schedule);
+    const first = schedule[0];
+    const last = schedule[schedule.length - 1];
+    const events: LeaseEndTimelineEvent[] = [
+      { yearOffset: first.yearOffset, month: first.month, kind: 'leasing_start', amount: first.capital },
+      { yearOffset: last.yearOffset, month: last.month, kind: 'last_installment' },
+      { ...buyout, kind: 'buyout', amount: car.carPriceNetto * ((car.leasingBuyoutPercent ?? 0) / 100) },
+    ];
 
-    if (car.usageType === 'full_business') {
-      return vatAmount; // 100% deductible
-    } else {
-      return vatAmount * 0.50; // 50% deductible for mixed use
+    if (car.leaseEndDecision === 'private_buyout') {
+      const buyoutYear = (config?.year ?? DEFAULT_2026_CONFIG.year) + buyout.yearOffset;
+      const taxPeriod = LeasingCalculator.getPrivateResaleTaxPeriod(buyoutYear);
+      events.push({ ...LeasingCalculator.addMonths(buyout, taxPeriod + 1), kind: 'tax_free_from' });
+    }
+
+    if (car.resaleMonthsAfterBuyout !== undefined) {
+      events.push({
+        ...LeasingCalculator.addMonths(buyout, car.resaleMonthsAfterBuyout),
+        kind: 'resale',
+        amount: car.resalePriceNetto ?? 0,
+        taxable: this.isResaleTaxable(car, buyout, config),
+      });
     }
+
+    return {
+      carName: car.name,
+      decision: car.leaseEndDecision,
+      events: events.sort((a, b) => LeasingCalculator.monthsBetween(b, a)),
+    };
+  }
+
+  /**
+   * Asset register entries for all equipment, with one-off write-offs capped by the de minimis limit
+   */
+  static getEquipmentAssets(
+    equipmentInvestments: EquipmentInvestment[],
+    config?: TaxYearConfigInput
+  ): AssetRegisterEntry[] {
+    return DepreciationCalculator.applyDeMinimisCap(
+      equipmentInvestments.map(eq => this.toEquipmentAsset(eq)),
+      config ? config.deMinimisLimit : DE_MINIMIS_LIMIT
+    );
+  }
+
+  /**
+   * Calculate equipment depreciation for a tax year from its KŚT group and method
+   */
+  static calculateEquipmentDepreciation(equipment: EquipmentInvestment, yearOffset = 0): number {
+    const schedule = DepreciationCalculator.generateSchedule(this.toEquipmentAsset(equipment));
+    return DepreciationCalculator.getYearlyAmount(schedule, yearOffset);
   }
 
   /**
-   * Calculate equipment depreciation (simplified)
+   * Calculate yearly ZUS per component from the tax year bases and rates
    */
-  static calculateEquipmentDepreciation(equipment: EquipmentInvestment): number {
-    // IT equipment: 30% depreciation rate (simplified)
-    const monthsInYear = 13 - equipment.monthOfPurchase;
-    return (equipment.costNetto * 0.30 * monthsInYear) / 12;
+  static calculateYearlyZUSBreakdown(zusType: ZusType, config?: TaxYearConfigInput): ZusBreakdown {
+    // Social security does not depend on taxation form or revenue
+    const social = ContributionCalculator.calculateSocialSecurity(
+      {
+        taxationForm: 'liniowy',
+        zusType,
+        monthlyRevenue: 0,
+        monthlyCosts: 0,
+        voluntarySickness: false,
+      },
+      this.toContributionConfig(config)
+    );
+
+    return {
+      retirement: social.breakdown.retirement * 12,
+      disability: social.breakdown.disability * 12,
+      accident: social.breakdown.accident * 12,
+      sickness: (social.breakdown.sickness ?? 0) * 12,
+      workFund: (social.breakdown.workFund ?? 0) * 12,
+      solidarityFund: (social.breakdown.solidarityFund ?? 0) * 12,
+    };
   }
 
   /**
    * Calculate total ZUS for the year
    */
   static calculateYearlyZUS(zusType: ZusType, config?: TaxYearConfigInput): number {
-    const monthlyRate = this.getZUSMonthly(zusType, config);
-    return monthlyRate * 12;
+    const breakdown = this.calculateYearlyZUSBreakdown(zusType, config);
+    return Object.values(breakdown).reduce((sum, value) => sum + value, 0);
   }
 
   /**
-   * Calculate tax for Ryczałt (Lump Sum)
+   * Helper: Whether some investments are bought after the first projected year
    */
-  static calculateRyczalt(config: ScenarioConfig): TaxResult {
-    const ryczaltRate = RYCZALT_RATES.it_services; // Default to IT services
-    const grossRevenue = config.yearlyRevenueNetto;
+  private static hasLaterPurchases(config: ScenarioConfig): boolean {
+    return [...config.carInvestments, ...config.equipmentInvestments].some(
+      investment => (investment.purchaseYearOffset ?? 0) > 0
+    );
+  }
 
-    // Ryczałt tax is simply revenue * rate
-    const incomeTax = grossRevenue * ryczaltRate;
+  /**
+   * Helper: Investments grouped by the tax year they are bought in. Each part counts the year
+   * offset from its own purchase and uses the config of its purchase year, investments not
+   * bought yet are left out.
+   */
+  private static splitByPurchaseYear(config: ScenarioConfig): ScenarioConfig[] {
+    const yearOffset = config.yearOffset ?? 0;
+    const purchaseYears = [
+      ...new Set(
+        [...config.carInvestments, ...config.equipmentInvestments].map(investment => investment.purchaseYearOffset ?? 0)
+      ),
+    ];
 
-    // Health insurance (simplified calculation)
-    const healthInsurance = 6_000; // Approximate fixed amount for ryczałt
+    return purchaseYears
+      .filter(purchaseYear => purchaseYear <= yearOffset)
+      .map(purchaseYear => ({
+        ...config,
+        carInvestments: config.carInvestments
+          .filter(car => (car.purchaseYearOffset ?? 0) === purchaseYear)
+          .map(car => ({ ...car, purchaseYearOffset: 0 })),
+        equipmentInvestments: config.equipmentInvestments
+          .filter(equipment => (equipment.purchaseYearOffset ?? 0) === purchaseYear)
+          .map(equipment => ({ ...equipment, purchaseYearOffset: 0 })),
+        yearOffset: yearOffset - purchaseYear,
+        purchaseTaxYearConfig:
+          purchaseYear === 0
+            ? config.purchaseTaxYearConfig
+            : (config.laterPurchaseTaxYearConfigs?.[purchaseYear] ?? config.taxYearConfig),
+      }));
+  }
 
-    const zusTotal = this.calculateYearlyZUS(config.zusType, config.taxYearConfig);
+  /**
+   * Helper: Add up amounts calculated separately for every purchase year
+   */
+  private static sumByPurchaseYear<T extends Record<string, number>>(
+    config: ScenarioConfig,
+    calculate: (part: ScenarioConfig) => T,
+    zero: T
+  ): T {
+    return this.splitByPurchaseYear(config).reduce((sum, part) => {
+      const amounts = calculate(part);
+      return Object.fromEntries(Object.keys(sum).map(key => [key, sum[key] + amounts[key]])) as T;
+    }, zero);
+  }
 
-    // Calculate VAT benefit from investments (cars)
-    let vatBenefit = 0;
-    if (config.vatPayer) {
-      config.carInvestments.forEach(car => {
-        vatBenefit += this.calculateCarVATBenefit(car) * config.vatRateMixed;
+  /**
+   * Calculate depreciation of all investments for the year, split by type
+   */
+  static calculateInvestmentsDepreciation(config: ScenarioConfig): {
+    carDepreciation: number;
+    equipmentDepreciation: number;
+  } {
+    if (this.hasLaterPurchases(config)) {
+      return this.sumByPurchaseYear(config, part => this.calculateInvestmentsDepreciation(part), {
+        carDepreciation: 0,
+        equipmentDepreciation: 0,
       });
+    }
+
+    const yearOffset = config.yearOffset ?? 0;
+    const purchaseConfig = config.purchaseTaxYearConfig ?? config.taxYearConfig;
+    const carDepreciation = config.carInvestments.reduce(
+      (sum, car) => sum + this.calculateCarDepreciation(car, purchaseConfig, yearOffset),
+      0
+    );
+    const equipmentDepreciation = this.getEquipmentAssets(config.equipmentInvestments, purchaseConfig).reduce(
+      (sum, asset) =>
+        sum + DepreciationCalculator.getYearlyAmount(DepreciationCalculator.generateSchedule(asset), yearOffset),
+      0
+    );
+    return { carDepreciation, equipmentDepreciation };
+  }
+
+  /**
+   * Payments for a car month by month: the price for cash, otherwise the loan or leasing
+   * payments. A loan and financial leasing carry VAT on the whole price upfront, the residual
+   * of financial leasing is paid after the last installment. Buyout of operating leasing
+   * is part of the lease end entries.
+   */
+  static getCarPayments(car: CarInvestment, config?: TaxYearConfigInput): InvestmentPayment[] {
+    const vatRate = this.getVATRules(config).rate;
+    if (car.financingMethod === 'cash') {
+      return [
+        { yearOffset: 0, month: car.monthOfPurchase, netto: car.carPriceNetto, vat: car.carPriceNetto * vatRate },
+      ];
+    }
+
+    const schedule = this.getLeasingSchedule(car, config);
+    const payments: InvestmentPayment[] = schedule.map(payment => ({
+      yearOffset: payment.yearOffset,
+      month: payment.month,
+      netto: payment.capital + payment.interest + payment.fees + payment.insurance,
+      vat: payment.vat,
+    }));
+
+    if (car.financingMethod !== 'leasing') {
+      payments[0].vat = car.carPriceNetto * vatRate;
+    }
+    if (car.financingMethod === 'financial_leasing') {
+      const residual = car.carPriceNetto * ((car.leasingBuyoutPercent ?? 0) / 100);
+      payments.push({ ...LeasingCalculator.getBuyoutDate(schedule), netto: residual, vat: 0 });
+    }
+    return payments;
+  }
+
+  /**
+   * Last tax year (offset from the purchase) with a payment or deduction for the car
+   */
+  static getCarLastYearOffset(car: CarInvestment, config?: TaxYearConfigInput): number {
+    const dates: LeasingDate[] = [
+      ...this.getCarPayments(car, config),
+      ...(this.isOwnedCar(car)
+        ? DepreciationCalculator.generateSchedule(this.toCarAsset(car, config))
+        : this.getLeaseEndEntries(car, config)),
+    ];
+    return Math.max(...dates.map(date => date.yearOffset));
+  }
+
+  /**
+   * Last tax year (offset from the purchase) with a depreciation write-off for the equipment
+   */
+  static getEquipmentLastYearOffset(equipment: EquipmentInvestment): number {
+    const schedule = DepreciationCalculator.generateSchedule(this.toEquipmentAsset(equipment));
+    return Math.max(0, ...schedule.map(entry => entry.yearOffset));
+  }
+
+  /**
+   * Payments for all investments in the year, equipment is paid in the month of purchase
+   */
+  static getInvestmentsPayments(config: ScenarioConfig): InvestmentPayment[] {
+    return this.splitByPurchaseYear(config).flatMap(part => {
+      const yearOffset = part.yearOffset ?? 0;
+      const purchaseConfig = part.purchaseTaxYearConfig ?? part.taxYearConfig;
+      const vatRate = this.getVATRules(purchaseConfig).rate;
+      return [
+        ...part.carInvestments.flatMap(car => this.getCarPayments(car, purchaseConfig)),
+        ...part.equipmentInvestments.map(equipment => ({
+          yearOffset: 0,
+          month: equipment.monthOfPurchase,
+          netto: equipment.costNetto,
+          vat: equipment.costNetto * vatRate,
+        })),
+      ]
+        .filter(payment => payment.yearOffset === yearOffset)
+        .map(payment => ({ ...payment, yearOffset: config.yearOffset ?? 0 }));
+    });
+  }
+
+  /**
+   * Cash paid in the year: fixed costs, investment payments with VAT, car running costs
+   * and lease end payments. Deductions lower the tax base only, the money leaves when it is paid.
+   */
+  private static calculateCashCosts(
+    config: ScenarioConfig,
+    runningCosts: { cost: number; vatPaid: number },
+    leaseEnd: { cost: number }
+  ): number {
+    const investmentPayments = this.getInvestmentsPayments(config).reduce(
+      (sum, payment) => sum + payment.netto + payment.vat,
+      0
+    );
+    return config.yearlyFixedCosts + investmentPayments + runningCosts.cost + runningCosts.vatPaid + leaseEnd.cost;
+  }
+
+  /**
+   * Calculate VAT recovered on all investments (VAT payers only). Purchases are
+   * settled in the year of purchase, leasing payments in the year they are paid.
+   */
+  static calculateInvestmentsVATBenefit(config: ScenarioConfig): number {
+    if (!config.vatPayer) {
+      return 0;
+    }
+    if (this.hasLaterPurchases(config)) {
+      return this.sumByPurchaseYear(config, part => ({ vat: this.calculateInvestmentsVATBenefit(part) }), { vat: 0 })
+        .vat;
+    }
+
+    const yearOffset = config.yearOffset ?? 0;
+    const purchaseConfig = config.purchaseTaxYearConfig ?? config.taxYearConfig;
+    let vatBenefit = 0;
+    config.carInvestments.forEach(car => {
+      vatBenefit += this.calculateCarVATBenefit(car, purchaseConfig, yearOffset) * config.vatRateMixed;
+    });
+    if (yearOffset === 0) {
       config.equipmentInvestments.forEach(eq => {
-        vatBenefit += eq.costNetto * 0.23 * config.vatRateMixed;
+        vatBenefit += eq.costNetto * this.getVATRules(purchaseConfig).rate * config.vatRateMixed;
       });
     }
+    return vatBenefit;
+  }
+
+  /**
+   * Ryczałt tax due on revenue, split across rates by revenue share
+   */
+  static calculateRyczaltTax(
+    revenue: number,
+    revenueSplit: RyczaltRevenueShare[] = DEFAULT_RYCZALT_REVENUE_SPLIT
+  ): number {
+    const split = revenueSplit.length > 0 ? revenueSplit : DEFAULT_RYCZALT_REVENUE_SPLIT;
+    // Normalize so the shares always cover the whole revenue
+    const totalPercent = split.reduce((sum, share) => sum + share.percent, 0) || 100;
 
-    const netCashInHand = grossRevenue - incomeTax - healthInsurance - zusTotal + vatBenefit;
+    return split.reduce(
+      (tax, share) => tax + Math.max(0, revenue) * (share.percent / totalPercent) * share.rate,
+      0
+    );
+  }
+
+  /**
+   * Weighted average ryczałt rate for a revenue split
+   */
+  static getEffectiveRyczaltRate(revenueSplit?: RyczaltRevenueShare[]): number {
+    return this.calculateRyczaltTax(1, revenueSplit);
+  }
+
+  /**
+   * Linear (19%) tax due on taxable income
+   */
+  static calculateLinearTax(taxableIncome: number, config?: TaxYearConfigInput): number {
+    return Math.max(0, taxableIncome) * this.getLinearTaxRate(config);
+  }
+
+  /**
+   * Progressive (12%/32%) tax due on income. The tax-free allowance works as a tax
+   * reduction (allowance * lower rate), and the threshold applies to the whole income.
+   */
+  static calculateScaleTax(income: number, config?: TaxYearConfigInput): number {
+    const brackets = this.getTaxScaleBrackets(config);
+    const taxReduction = brackets.tax_free_allowance * brackets.first_bracket_rate;
+    const taxableIncome = Math.max(0, income);
+
+    if (taxableIncome <= brackets.first_bracket_limit) {
+      return Math.max(0, taxableIncome * brackets.first_bracket_rate - taxReduction);
+    }
+
+    const firstBracketTax = brackets.first_bracket_limit * brackets.first_bracket_rate - taxReduction;
+    const secondBracketIncome = taxableIncome - brackets.first_bracket_limit;
+    const secondBracketTax = secondBracketIncome * brackets.second_bracket_rate;
+    return firstBracketTax + secondBracketTax;
+  }
+
+  /**
+   * Solidarity levy due on income (after social ZUS) above the threshold
+   */
+  static calculateSolidarityLevy(income: number, config?: TaxYearConfigInput): number {
+    const levy = this.getSolidarityLevy(config);
+    return Math.max(0, income - levy.threshold) * levy.rate;
+  }
+
+  /**
+   * Calculate tax for Ryczałt (Lump Sum)
+   */
+  static calculateRyczalt(config: ScenarioConfig): TaxResult {
+    // Resale of a bought-out leased car is taxed as business revenue
+    const leaseEnd = this.calculateInvestmentsLeaseEnd(config);
+    const grossRevenue = config.yearlyRevenueNetto + leaseEnd.revenue;
+
+    // Investments and car running costs are still paid for, but they don't lower ryczałt tax
+    const runningCosts = this.calculateInvestmentsRunningCosts(config);
+    const totalCosts = this.calculateCashCosts(config, runningCosts, leaseEnd);
+
+    // Health insurance: tiered by yearly revenue (60k / 300k thresholds)
+    const health = ContributionCalculator.calculateHealthInsurance(
+      {
+        taxationForm: 'ryczalt',
+        zusType: config.zusType,
+        monthlyRevenue: grossRevenue / 12,
+        monthlyCosts: 0,
+        voluntarySickness: false,
+        yearlyRevenueToDate: grossRevenue,
+      },
+      this.toContributionConfig(config.taxYearConfig),
+      0
+    );
+    const healthInsurance = health.amount * 12;
+
+    const zusBreakdown = this.calculateYearlyZUSBreakdown(config.zusType, config.taxYearConfig);
+    const zusTotal = this.calculateYearlyZUS(config.zusType, config.taxYearConfig);
+
+    // Social ZUS and 50% of paid health insurance are deducted from revenue (PIT-28)
+    const socialZusDeduction = Math.min(zusTotal, grossRevenue);
+    const healthInsuranceDeduction = Math.min(health.deductibleFromIncome * 12, grossRevenue - socialZusDeduction);
+    const taxableIncome = grossRevenue - socialZusDeduction - healthInsuranceDeduction;
+
+    const incomeTax = this.calculateRyczaltTax(taxableIncome, config.ryczaltRevenueSplit);
+
+    const vatBenefit = this.calculateInvestmentsVATBenefit(config) + runningCosts.vatBenefit + leaseEnd.vatBenefit;
+
+    const netCashInHand =
+      grossRevenue - totalCosts - incomeTax - healthInsurance - zusTotal + vatBenefit + leaseEnd.taxFreeIncome;
 
     return {
       taxationForm: 'ryczalt',
       grossRevenue,
-      totalCosts: 0, // Costs don't matter for ryczałt
-      taxableIncome: grossRevenue,
+      totalCosts, // Paid in cash, but not deductible for ryczałt
+      taxableIncome,
       incomeTax,
+      solidarityLevy: 0, // Not applicable
       healthInsurance,
       zusTotal,
+      zusBreakdown,
       netCashInHand,
       breakdown: {
         carDepreciationDeduction: 0, // Not applicable
+        carRunningCostsDeduction: 0, // Not applicable
+        carBuyoutDeduction: 0, // Not applicable
         equipmentDepreciationDeduction: 0, // Not applicable
+        socialZusDeduction,
+        healthInsuranceDeduction,
         vatBenefit,
       },
     };
   }
 
   /**
-   * Calculate tax for Linear Tax (19%)
+   * Calculate tax for Linear Tax (19% by default)
    */
   static calculateLiniowy(config: ScenarioConfig): TaxResult {
-    const grossRevenue = config.yearlyRevenueNetto;
+    const leaseEnd = this.calculateInvestmentsLeaseEnd(config);
+    const grossRevenue = config.yearlyRevenueNetto + leaseEnd.revenue;
     const healthInsuranceRates = this.getHealthInsuranceRates(config.taxYearConfig);
     const healthInsuranceLimit = this.getHealthInsuranceLimit(config.taxYearConfig);
 
-    // Calculate car depreciation
-    let carDepreciation = 0;
-    config.carInvestments.forEach(car => {
-      carDepreciation += this.calculateCarDepreciation(car);
-    });
+    const { carDepreciation, equipmentDepreciation } = this.calculateInvestmentsDepreciation(config);
+    const runningCosts = this.calculateInvestmentsRunningCosts(config);
 
-    // Calculate equipment depreciation
-    let equipmentDepreciation = 0;
-    config.equipmentInvestments.forEach(eq => {
-      equipmentDepreciation += this.calculateEquipmentDepreciation(eq);
-    });
+    const totalCosts =
+      config.yearlyFixedCosts + carDepreciation + equipmentDepreciation + runningCosts.deductible + leaseEnd.deductible;
+    const income = Math.max(0, grossRevenue - totalCosts);
+    // Cash leaves when investments are paid for, not when they are deducted
+    const cashCosts = this.calculateCashCosts(config, runningCosts, leaseEnd);
+
+    const zusBreakdown = this.calculateYearlyZUSBreakdown(config.zusType, config.taxYearConfig);
+    const zusTotal = this.calculateYearlyZUS(config.zusType, config.taxYearConfig);
 
-    const totalCosts = config.yearlyFixedCosts + carDepreciation + equipmentDepreciation;
-    const taxableIncome = Math.max(0, grossRevenue - totalCosts);
+    // Social ZUS is deducted from income (PIT-36L)
+    const socialZusDeduction = Math.min(zusTotal, income);
 
-    // 19% linear tax
-    const incomeTax = taxableIncome * 0.19;
+    // Health insurance: rate from config on income after social ZUS, never below the minimum
+    const healthInsuranceBase = income - socialZusDeduction;
+    const healthInsurance = Math.max(
+      healthInsuranceBase * healthInsuranceRates.liniowy,
+      this.getMinHealthInsuranceYearly(config.taxYearConfig)
+    );
 
-    // Health insurance: rate from config, deductible up to limit from config
-    const healthInsuranceBase = taxableIncome;
-    const healthInsurance = Math.min(healthInsuranceBase * healthInsuranceRates.liniowy, healthInsuranceLimit);
+    // Paid health insurance is deductible from income up to the annual limit
+    const healthInsuranceDeduction = Math.min(healthInsurance, healthInsuranceLimit, healthInsuranceBase);
+    const taxableIncome = healthInsuranceBase - healthInsuranceDeduction;
 
-    const zusTotal = this.calculateYearlyZUS(config.zusType, config.taxYearConfig);
+    const incomeTax = this.calculateLinearTax(taxableIncome, config.taxYearConfig);
+    const solidarityLevy = this.calculateSolidarityLevy(healthInsuranceBase, config.taxYearConfig);
 
-    // VAT benefit
-    let vatBenefit = 0;
-    if (config.vatPayer) {
-      config.carInvestments.forEach(car => {
-        vatBenefit += this.calculateCarVATBenefit(car) * config.vatRateMixed;
-      });
-      config.equipmentInvestments.forEach(eq => {
-        vatBenefit += eq.costNetto * 0.23 * config.vatRateMixed;
-      });
-    }
+    const vatBenefit = this.calculateInvestmentsVATBenefit(config) + runningCosts.vatBenefit + leaseEnd.vatBenefit;
 
-    const netCashInHand = grossRevenue - totalCosts - incomeTax - healthInsurance - zusTotal + vatBenefit;
+    const netCashInHand =
+      grossRevenue -
+      cashCosts -
+      incomeTax -
+      solidarityLevy -
+      healthInsurance -
+      zusTotal +
+      vatBenefit +
+      leaseEnd.taxFreeIncome;
 
     return {
       taxationForm: 'liniowy',
@@ -329,70 +1230,68 @@ export class TaxCalculator {
       totalCosts,
       taxableIncome,
       incomeTax,
+      solidarityLevy,
       healthInsurance,
       zusTotal,
+      zusBreakdown,
       netCashInHand,
       breakdown: {
         carDepreciationDeduction: carDepreciation,
+        carRunningCostsDeduction: runningCosts.deductible,
+        carBuyoutDeduction: leaseEnd.deductible,
         equipmentDepreciationDeduction: equipmentDepreciation,
+        socialZusDeduction,
+        healthInsuranceDeduction,
         vatBenefit,
       },
     };
   }
 
   /**
-   * Calculate tax for Tax Scale (Progressive 12%/32%)
+   * Calculate tax for Tax Scale (Progressive 12%/32% by default)
    */
   static calculateSkala(config: ScenarioConfig): TaxResult {
-    const grossRevenue = config.yearlyRevenueNetto;
+    const leaseEnd = this.calculateInvestmentsLeaseEnd(config);
+    const grossRevenue = config.yearlyRevenueNetto + leaseEnd.revenue;
     const healthInsuranceRates = this.getHealthInsuranceRates(config.taxYearConfig);
 
-    // Calculate car depreciation
-    let carDepreciation = 0;
-    config.carInvestments.forEach(car => {
-      carDepreciation += this.calculateCarDepreciation(car);
-    });
-
-    // Calculate equipment depreciation
-    let equipmentDepreciation = 0;
-    config.equipmentInvestments.forEach(eq => {
-      equipmentDepreciation += this.calculateEquipmentDepreciation(eq);
-    });
+    const { carDepreciation, equipmentDepreciation } = this.calculateInvestmentsDepreciation(config);
+    const runningCosts = this.calculateInvestmentsRunningCosts(config);
 
-    const totalCosts = config.yearlyFixedCosts + carDepreciation + equipmentDepreciation;
+    const totalCosts =
+      config.yearlyFixedCosts + carDepreciation + equipmentDepreciation + runningCosts.deductible + leaseEnd.deductible;
     const income = Math.max(0, grossRevenue - totalCosts);
+    // Cash leaves when investments are paid for, not when they are deducted
+    const cashCosts = this.calculateCashCosts(config, runningCosts, leaseEnd);
 
-    // Apply tax-free allowance
-    const taxableIncome = Math.max(0, income - TAX_SCALE_BRACKETS.tax_free_allowance);
-
-    // Progressive tax calculation
-    let incomeTax = 0;
-    if (taxableIncome <= TAX_SCALE_BRACKETS.first_bracket_limit) {
-      incomeTax = taxableIncome * TAX_SCALE_BRACKETS.first_bracket_rate;
-    } else {
-      const firstBracketTax = TAX_SCALE_BRACKETS.first_bracket_limit * TAX_SCALE_BRACKETS.first_bracket_rate;
-      const secondBracketIncome = taxableIncome - TAX_SCALE_BRACKETS.first_bracket_limit;
-      const secondBracketTax = secondBracketIncome * TAX_SCALE_BRACKETS.second_bracket_rate;
-      incomeTax = firstBracketTax + secondBracketTax;
-    }
+    const zusBreakdown = this.calculateYearlyZUSBreakdown(config.zusType, config.taxYearConfig);
+    const zusTotal = this.calculateYearlyZUS(config.zusType, config.taxYearConfig);
 
-    // Health insurance: from config, NOT deductible from tax
-    const healthInsurance = income * healthInsuranceRates.skala;
+    // Social ZUS is deducted from income (PIT-36)
+    const socialZusDeduction = Math.min(zusTotal, income);
+    const taxableIncome = income - socialZusDeduction;
 
-    const zusTotal = this.calculateYearlyZUS(config.zusType, config.taxYearConfig);
+    // Tax-free allowance is applied inside the progressive tax calculation
+    const incomeTax = this.calculateScaleTax(taxableIncome, config.taxYearConfig);
+    const solidarityLevy = this.calculateSolidarityLevy(taxableIncome, config.taxYearConfig);
 
-    // VAT benefit
-    let vatBenefit = 0;
-    if (config.vatPayer) {
-      config.carInvestments.forEach(car => {
-        vatBenefit += this.calculateCarVATBenefit(car) * config.vatRateMixed;
-      });
-      config.equipmentInvestments.forEach(eq => {
-        vatBenefit += eq.costNetto * 0.23 * config.vatRateMixed;
-      });
-    }
+    // Health insurance: from config on income after social ZUS, never below the minimum, NOT deductible
+    const healthInsurance = Math.max(
+      taxableIncome * healthInsuranceRates.skala,
+      this.getMinHealthInsuranceYearly(config.taxYearConfig)
+    );
+
+    const vatBenefit = this.calculateInvestmentsVATBenefit(config) + runningCosts.vatBenefit + leaseEnd.vatBenefit;
 
-    const netCashInHand = grossRevenue - totalCosts - incomeTax - healthInsurance - zusTotal + vatBenefit;
+    const netCashInHand =
+      grossRevenue -
+      cashCosts -
+      incomeTax -
+      solidarityLevy -
+      healthInsurance -
+      zusTotal +
+      vatBenefit +
+      leaseEnd.taxFreeIncome;
 
     return {
       taxationForm: 'skala',
@@ -400,12 +1299,18 @@ export class TaxCalculator {
       totalCosts,
       taxableIncome,
       incomeTax,
+      solidarityLevy,
       healthInsurance,
       zusTotal,
+      zusBreakdown,
       netCashInHand,
       breakdown: {
         carDepreciationDeduction: carDepreciation,
+        carRunningCostsDeduction: runningCosts.deductible,
+        carBuyoutDeduction: leaseEnd.deductible,
         equipmentDepreciationDeduction: equipmentDepreciation,
+        socialZusDeduction,
+        healthInsuranceDeduction: 0, // Not deductible on skala
         vatBenefit,
       },
     };
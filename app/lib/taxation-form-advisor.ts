@@ -0,0 +1,123 @@
+/**
+ * Advice on changing the taxation form
+ * Compares the current form with the best available one and lists what stands in the way
+ * of switching: the change has to be notified in CEIDG by 20 February of the tax year,
+ * liniowy and ryczałt are excluded for services to a former employer, and moving between
+ * liniowy and skala changes how health insurance is charged and deducted.
+ */
+
+import type { TaxResult, TaxationForm } from './tax-calculator';
+
+const TAXATION_FORMS: TaxationForm[] = ['ryczalt', 'liniowy', 'skala'];
+
+/**
+ * Forms not available for revenue from services to a current or former employer, provided in
+ * the current or previous tax year within the scope of the employment (art. 9a ust. 3 PIT,
+ * art. 8 ust. 1 pkt 3 ustawy o zryczałtowanym podatku dochodowym)
+ */
+export const FORMER_EMPLOYER_EXCLUDED_FORMS: TaxationForm[] = ['liniowy', 'ryczalt'];
+
+const CHANGE_DEADLINE_MONTH = 2; // February
+const CHANGE_DEADLINE_DAY = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ChangeDeadline {
+  date: string; // YYYY-MM-DD, last day to notify the change
+  effectiveYear: number; // First tax year taxed with the new form
+  daysLeft: number;
+}
+
+export interface HealthInsuranceChange {
+  current: number; // Yearly health insurance on the current form
+  recommended: number;
+  currentDeduction: number; // Health insurance deducted from the tax base on the current form
+  recommendedDeduction: number;
+}
+
+export interface TaxationFormAdvice {
+  currentForm: TaxationForm;
+  recommendedForm: TaxationForm; // Best net cash among the available forms
+  shouldSwitch: boolean;
+  yearlyGain: number; // Net cash of the recommended form minus the current one
+  excludedForms: TaxationForm[];
+  currentFormExcluded: boolean;
+  deadline: ChangeDeadline;
+  healthInsuranceChange?: HealthInsuranceChange; // Switching between liniowy and skala only
+}
+
+export interface TaxationFormAdvisorOptions {
+  taxYear: number;
+  formerEmployerServices: boolean;
+  today: Date;
+}
+
+export class TaxationFormAdvisor {
+  /**
+   * Deadline for notifying the change, moved to Monday when 20 February falls on a weekend.
+   * Once it has passed, the change only applies from the next tax year.
+   */
+  static getChangeDeadline(taxYear: number, today: Date): ChangeDeadline {
+    const todayUtc = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+    const deadlineFor = (year: number) => {
+      const date = new Date(Date.UTC(year, CHANGE_DEADLINE_MONTH - 1, CHANGE_DEADLINE_DAY));
+      const weekday = date.getUTCDay();
+      if (weekday === 6 || weekday === 0) {
+        date.setUTCDate(date.getUTCDate() + (weekday === 6 ? 2 : 1));
+      }
+      return date;
+    };
+
+    let effectiveYear = taxYear;
+    let deadline = deadlineFor(effectiveYear);
+    while (deadline.getTime() < todayUtc) {
+      effectiveYear++;
+      deadline = deadlineFor(effectiveYear);
+    }
+
+    return {
+      date: deadline.toISOString().slice(0, 10),
+      effectiveYear,
+      daysLeft: Math.round((deadline.getTime() - todayUtc) / DAY_MS),
+    };
+  }
+
+  /**
+   * Compare the current form with the best available one
+   */
+  static advise(
+    results: Record<TaxationForm, TaxResult>,
+    currentForm: TaxationForm,
+    options: TaxationFormAdvisorOptions
+  ): TaxationFormAdvice {
+    const excludedForms = options.formerEmployerServices ? FORMER_EMPLOYER_EXCLUDED_FORMS : [];
+    const availableForms = TAXATION_FORMS.filter(form => !excludedForms.includes(form));
+    const recommendedForm = availableForms.reduce((best, form) =>
+      results[form].netCashInHand > results[best].netCashInHand ? form : best
+    );
+    const shouldSwitch = recommendedForm !== currentForm;
+
+    const switchesHealthBase =
+      shouldSwitch && [currentForm, recommendedForm].every(form => form === 'liniowy' || form === 'skala');
+
+    return {
+      currentForm,
+      recommendedForm,
+      shouldSwitch,
+      yearlyGain: results[recommendedForm].netCashInHand - results[currentForm].netCashInHand,
+      excludedForms,
+      currentFormExcluded: excludedForms.includes(currentForm),
+      deadline: this.getChangeDeadline(options.taxYear, options.today),
+      ...(switchesHealthBase
+        ? {
+            healthInsuranceChange: {
+              current: results[currentForm].healthInsurance,
+              recommended: results[recommendedForm].healthInsurance,
+              currentDeduction: results[currentForm].breakdown.healthInsuranceDeduction,
+              recommendedDeduction: results[recommendedForm].breakdown.healthInsuranceDeduction,
+            },
+          }
+        : {}),
+    };
+  }
+}
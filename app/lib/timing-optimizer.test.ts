@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { type ScenarioConfig, type TaxYearConfigInput } from './tax-calculator';
+import { TimingOptimizer } from './timing-optimizer';
+
+const taxYear2026: TaxYearConfigInput = {
+  year: 2026,
+  minimumWageGross: 4626,
+  averageWagePrognosis: 7286,
+  averageWageQ4PreviousYear: 7000,
+  retirementRate: 0.1952,
+  disabilityRate: 0.08,
+  accidentRate: 0.0167,
+  sicknessRate: 0.0245,
+  workFundRate: 0.0245,
+  solidarityFundRate: 0.0145,
+  healthInsuranceRateSkala: 0.09,
+  healthInsuranceRateLiniowy: 0.049,
+  healthInsuranceLimitLinear: 11600,
+  healthInsuranceMinBaseRatio: 0.75,
+  taxFreeAllowance: 30000,
+  taxScaleThreshold: 120000,
+  taxScaleLowerRate: 0.12,
+  taxScaleUpperRate: 0.32,
+  linearTaxRate: 0.19,
+  carLimitCombustion: 100000,
+  carLimitLowEmission: 150000,
+  carLimitElectric: 225000,
+  carLowEmissionCo2Threshold: 50,
+  vatRate: 0.23,
+  carVatMixedDeduction: 0.5,
+  solidarityLevyThreshold: 1000000,
+  solidarityLevyRate: 0.04,
+  deMinimisLimit: 213000,
+};
+
+// Everything but the combustion car limit the same, so the timing only matters through the limit
+const taxYearConfigs: TaxYearConfigInput[] = [
+  { ...taxYear2026, year: 2025, carLimitCombustion: 150000 },
+  taxYear2026,
+];
+
+const config: ScenarioConfig = {
+  yearlyRevenueNetto: 300000,
+  yearlyFixedCosts: 36000,
+  vatPayer: true,
+  vatRateMixed: 1,
+  zusType: 'duzy',
+  taxYearConfig: taxYear2026,
+  carInvestments: [
+    {
+      id: 'car',
+      name: 'Auto',
+      carPriceNetto: 150000,
+      engineType: 'combustion',
+      financingMethod: 'cash',
+      usageType: 'full_business',
+      monthOfPurchase: 6,
+    },
+  ],
+  equipmentInvestments: [],
+};
+
+describe('TimingOptimizer', () => {
+  it('returns null for an investment not in the scenario', () => {
+    expect(TimingOptimizer.optimize(config, 'missing', 2026, 5, taxYearConfigs)).toBeNull();
+  });
+
+  it('compares every month of the previous, the selected and the next year', () => {
+    const result = TimingOptimizer.optimize(config, 'car', 2026, 5, taxYearConfigs)!;
+
+    expect(result.startYear).toBe(2025);
+    expect(result.candidates).toHaveLength(36);
+    expect(result.candidates[0]).toMatchObject({ year: 2025, month: 1 });
+    expect(result.candidates[35]).toMatchObject({ year: 2027, month: 12 });
+    expect(result.current).toMatchObject({ year: 2026, month: 6 });
+  });
+
+  it('moves the car purchase into the year with the higher limit', () => {
+    const result = TimingOptimizer.optimize(config, 'car', 2026, 5, taxYearConfigs)!;
+
+    // Bought in 2025 the whole 150 000 is deductible, later only 100 000: 50 000 more costs
+    // save 32% tax and 9% health insurance on skala
+    expect(result.best.skala.year).toBe(2025);
+    expect(result.gain.skala).toBe(50000 * (0.32 + 0.09));
+    // Liniowy saves 19% tax and 4.9% health insurance, less the tax on the smaller health insurance deduction
+    expect(result.best.liniowy.year).toBe(2025);
+    expect(result.gain.liniowy).toBeGreaterThan(50000 * 0.19);
+    expect(result.gain.liniowy).toBeLessThan(50000 * (0.19 + 0.049));
+  });
+
+  it('keeps the current timing when no month gains at least 1 PLN', () => {
+    const result = TimingOptimizer.optimize(config, 'car', 2026, 5, taxYearConfigs)!;
+
+    // Ryczałt deducts no costs, the car limit doesn't matter
+    expect(result.best.ryczalt).toBe(result.current);
+    expect(result.gain.ryczalt).toBe(0);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Purchase timing optimizer for a single investment
+ * Moves the investment through every month of the previous, the current and the next
+ * tax year, everything else unchanged, and projects the scenario over the same calendar
+ * years for each candidate. The projection lasts until the investment is paid off and
+ * fully deducted even when bought in the last candidate month, so a later purchase
+ * isn't favoured by costs falling outside the window. Depreciation start, VAT recovery
+ * and the car limits of the purchase year all follow the timing, so the best month can
+ * differ per taxation form.
+ */
+
+import { ProjectionCalculator } from './projection-calculator';
+import {
+  TaxCalculator,
+  type CarInvestment,
+  type EquipmentInvestment,
+  type ScenarioConfig,
+  type TaxationForm,
+  type TaxYearConfigInput,
+} from './tax-calculator';
+
+const TAXATION_FORMS: TaxationForm[] = ['ryczalt', 'liniowy', 'skala'];
+
+/**
+ * Tax years considered for the purchase: the year before the selected one, the selected one and the next one
+ */
+const PURCHASE_YEARS = 3;
+
+/**
+ * Smallest gain in PLN worth moving the purchase for, smaller differences are rounding noise
+ */
+const MIN_GAIN = 1;
+
+export interface PurchaseTiming {
+  year: number;
+  month: number; // 1-12
+}
+
+export interface TimingCandidate extends PurchaseTiming {
+  totalNetCash: Record<TaxationForm, number>; // Rounded to PLN
+}
+
+export interface TimingOptimizationResult {
+  investmentName: string;
+  startYear: number; // First projected year, the year before the selected one
+  years: number; // Projected calendar years, the same for every candidate
+  current: TimingCandidate;
+  candidates: TimingCandidate[]; // Chronological
+  best: Record<TaxationForm, TimingCandidate>; // The current timing unless another one gains at least MIN_GAIN
+  gain: Record<TaxationForm, number>; // Best timing versus the current one
+}
+
+export class TimingOptimizer {
+  /**
+   * Scenario with the investment bought at the given time
+   */
+  static applyTiming(
+    config: ScenarioConfig,
+    investmentId: string,
+    timing: PurchaseTiming,
+    startYear: number
+  ): ScenarioConfig {
+    const move = <T extends CarInvestment | EquipmentInvestment>(investment: T): T =>
+      investment.id === investmentId
+        ? { ...investment, monthOfPurchase: timing.month, purchaseYearOffset: timing.year - startYear }
+        : investment;
+
+    return {
+      ...config,
+      carInvestments: config.carInvestments.map(move),
+      equipmentInvestments: config.equipmentInvestments.map(move),
+    };
+  }
+
+  /**
+   * Evaluate every purchase month, returns null when the investment is not in the scenario
+   */
+  static optimize(
+    config: ScenarioConfig,
+    investmentId: string,
+    selectedYear: number,
+    years: number,
+    taxYearConfigs: TaxYearConfigInput[]
+  ): TimingOptimizationResult | null {
+    const car = config.carInvestments.find(car => car.id === investmentId);
+    const equipment = config.equipmentInvestments.find(equipment => equipment.id === investmentId);
+    const investment = car ?? equipment;
+    if (!investment) {
+      return null;
+    }
+
+    // Projection starts a year earlier, so that December of the previous year can be compared with January
+    const startYear = selectedYear - 1;
+    const shift = <T extends CarInvestment | EquipmentInvestment>(investment: T): T => ({
+      ...investment,
+      purchaseYearOffset: (investment.purchaseYearOffset ?? 0) + 1,
+    });
+    const shifted: ScenarioConfig = {
+      ...config,
+      carInvestments: config.carInvestments.map(shift),
+      equipmentInvestments: config.equipmentInvestments.map(shift),
+    };
+
+    const timings: PurchaseTiming[] = Array.from({ length: PURCHASE_YEARS * 12 }, (_, i) => ({
+      year: startYear + Math.floor(i / 12),
+      month: (i % 12) + 1,
+    }));
+    const currentTiming: PurchaseTiming = {
+      year: selectedYear + (investment.purchaseYearOffset ?? 0),
+      month: investment.monthOfPurchase,
+    };
+
+    const lastPurchaseYear = Math.max(currentTiming.year, timings[timings.length - 1].year);
+    const lastYearOffset = car
+      ? TaxCalculator.getCarLastYearOffset(car, ProjectionCalculator.getConfigForYear(lastPurchaseYear, taxYearConfigs))
+      : TaxCalculator.getEquipmentLastYearOffset(investment as EquipmentInvestment);
+    const projectionYears = Math.max(years, lastPurchaseYear + lastYearOffset - startYear + 1);
+
+    const evaluate = (timing: PurchaseTiming): TimingCandidate => {
+      const { totalNetCash } = ProjectionCalculator.project(
+        this.applyTiming(shifted, investmentId, timing, startYear),
+        startYear,
+        projectionYears,
+        taxYearConfigs
+      );
+      return {
+        ...timing,
+        totalNetCash: {
+          ryczalt: Math.round(totalNetCash.ryczalt),
+          liniowy: Math.round(totalNetCash.liniowy),
+          skala: Math.round(totalNetCash.skala),
+        },
+      };
+    };
+
+    const candidates = timings.map(evaluate);
+    const current =
+      candidates.find(candidate => candidate.year === currentTiming.year && candidate.month === currentTiming.month) ??
+      evaluate(currentTiming);
+
+    const best = {} as Record<TaxationForm, TimingCandidate>;
+    const gain = {} as Record<TaxationForm, number>;
+    TAXATION_FORMS.forEach(form => {
+      const top = candidates.reduce((top, candidate) =>
+        candidate.totalNetCash[form] > top.totalNetCash[form] ? candidate : top
+      );
+      best[form] = top.totalNetCash[form] - current.totalNetCash[form] >= MIN_GAIN ? top : current;
+      gain[form] = best[form].totalNetCash[form] - current.totalNetCash[form];
+    });
+
+    return {
+      investmentName: investment.name,
+      startYear,
+      years: projectionYears,
+      current,
+      candidates,
+      best,
+      gain,
+    };
+  }
+}
@@ -4,4 +4,5 @@ export default [
 	index("routes/home.tsx"),
 	route("/simulator", "routes/simulator.tsx"),
 	route("/tax-config", "routes/tax-config.tsx"),
+	route("/compare", "routes/compare.tsx"),
 ] satisfies RouteConfig;
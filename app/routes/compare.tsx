@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import type { Route } from './+types/compare';
+import { HistorySidebar } from '~/components/history-sidebar';
+import {
+  ScenarioComparisonChart,
+  ScenarioDeltaTable,
+  type ScenarioComparisonEntry,
+} from '~/components/scenario-comparison';
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: 'Porównanie scenariuszy - Kalkulator B2B' },
+    { name: 'description', content: 'Porównaj wyniki podatkowe kilku scenariuszy obok siebie' },
+  ];
+}
+
+export default function ComparePage() {
+  const [entries, setEntries] = useState<ScenarioComparisonEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Scenario IDs come from the history sidebar selection
+  useEffect(() => {
+    const ids = new URLSearchParams(window.location.search).get('ids') ?? '';
+
+    fetch(`/api/simulations/compare?ids=${encodeURIComponent(ids)}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Comparison failed with status ${response.status}`);
+        }
+        setEntries((await response.json()) as ScenarioComparisonEntry[]);
+      })
+      .catch((err) => {
+        console.error('Failed to compare scenarios:', err);
+        setError('Nie udało się porównać scenariuszy. Wybierz od 2 do 4 scenariuszy w historii.');
+      });
+  }, []);
+
+  const handleSelectScenario = (scenarioId: string) => {
+    window.location.href = `/simulator?scenario=${scenarioId}&calculate=1`;
+  };
+
+  const handleNewSimulation = () => {
+    window.location.href = '/simulator';
+  };
+
+  const handleConfigureTaxRates = () => {
+    window.location.href = '/tax-config';
+  };
+
+  return (
+    <div className="flex min-h-screen bg-gray-950 text-white">
+      {/* Sidebar */}
+      <HistorySidebar
+        currentScenarioId={null}
+        onSelectScenario={handleSelectScenario}
+        onNewSimulation={handleNewSimulation}
+        onConfigureTaxRates={handleConfigureTaxRates}
+      />
+
+      {/* Main Content */}
+      <div className="ml-80 flex-1 overflow-auto">
+        <div className="mx-auto max-w-7xl px-4 py-8">
+          <header className="mb-8">
+            <h1 className="text-4xl font-bold">Porównanie scenariuszy</h1>
+            <p className="mt-2 text-gray-400">
+              Wyniki obliczone z zapisanych ustawień każdego scenariusza (przychody, koszty, inwestycje)
+            </p>
+          </header>
+
+          {error && <p className="text-red-400">{error}</p>}
+          {!entries && !error && <p className="text-gray-400">Ładowanie...</p>}
+
+          {entries && (
+            <div className="space-y-6">
+              <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-6">
+                <h2 className="mb-4 text-xl font-semibold">Gotówka netto według formy opodatkowania</h2>
+                <ScenarioComparisonChart entries={entries} />
+              </div>
+
+              <div className="rounded-lg border border-gray-700 bg-gray-800/50 p-6">
+                <h2 className="mb-4 text-xl font-semibold">Różnice między scenariuszami</h2>
+                <ScenarioDeltaTable entries={entries} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
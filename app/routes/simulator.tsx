@@ -1,11 +1,34 @@
 import { useState, useEffect } from 'react';
 import type { Route } from './+types/simulator';
 import { ConfigurationForm, type ConfigurationData } from '~/components/configuration-form';
-import { CarInvestmentForm, type CarInvestmentData } from '~/components/car-investment-form';
+import { CarInvestmentForm, FINANCING_METHOD_LABELS, type CarInvestmentData } from '~/components/car-investment-form';
 import { EquipmentInvestmentForm, type EquipmentInvestmentData } from '~/components/equipment-investment-form';
 import { TaxComparisonChart, TaxDetailCard } from '~/components/tax-comparison-chart';
 import { HistorySidebar } from '~/components/history-sidebar';
-import type { TaxResult } from '~/lib/tax-calculator';
+import { MonthlyCashflowChart, MonthlyCashflowTable } from '~/components/monthly-cashflow';
+import { ProjectionChart, ProjectionTable } from '~/components/projection-chart';
+import { LeaseEndTimelineList } from '~/components/lease-end-timeline';
+import { BreakEvenChart } from '~/components/break-even-chart';
+import { TornadoChart } from '~/components/tornado-chart';
+import { MonteCarloPanel } from '~/components/monte-carlo-panel';
+import { TimingOptimizerPanel } from '~/components/timing-optimizer-panel';
+import { TaxationFormAdvisorCard } from '~/components/taxation-form-advisor-card';
+import {
+  DEFAULT_RYCZALT_REVENUE_SPLIT,
+  TaxCalculator,
+  type TaxResult,
+  type TaxationForm,
+  type TaxYearConfigInput,
+} from '~/lib/tax-calculator';
+import { DEFAULT_EQUIPMENT_KST_GROUP } from '~/lib/depreciation-calculator';
+import type { MonthlyCashflowResult } from '~/lib/cashflow-calculator';
+import type { ProjectionResult } from '~/lib/projection-calculator';
+import type { FinancingComparisonResult } from '~/lib/car-financing-calculator';
+import type { BreakEvenAxis, BreakEvenResult } from '~/lib/break-even-calculator';
+import type { SensitivityResult } from '~/lib/sensitivity-calculator';
+import type { MonteCarloOptions, MonteCarloResult } from '~/lib/monte-carlo-calculator';
+import type { TimingOptimizationResult } from '~/lib/timing-optimizer';
+import { TaxationFormAdvisor } from '~/lib/taxation-form-advisor';
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -23,17 +46,60 @@ interface Investment {
   data: CarInvestmentData | EquipmentInvestmentData;
 }
 
+/**
+ * Rebuild form data from the stored investment and car details rows (nullable columns become undefined)
+ */
+function toInvestment(inv: any, details: any[]): Investment {
+  const type = inv.type.startsWith('car') ? 'car' : 'equipment';
+  if (type === 'equipment') {
+    return {
+      id: inv.id,
+      type,
+      name: inv.name,
+      data: {
+        name: inv.name,
+        costNetto: inv.costNetto,
+        monthOfPurchase: inv.monthOfPurchase,
+        kstGroup: inv.kstGroup ?? DEFAULT_EQUIPMENT_KST_GROUP,
+        depreciationMethod: inv.depreciationMethod ?? 'linear',
+      },
+    };
+  }
+
+  const { id, investmentId, ...car } = details.find((detail) => detail.investmentId === inv.id) ?? {};
+  return {
+    id: inv.id,
+    type,
+    name: inv.name,
+    data: {
+      ...Object.fromEntries(Object.entries(car).filter(([, value]) => value !== null)),
+      name: inv.name,
+      monthOfPurchase: inv.monthOfPurchase,
+    } as CarInvestmentData,
+  };
+}
+
 export default function Simulator() {
   const [step, setStep] = useState<Step>('config');
   const [scenarioId, setScenarioId] = useState<string | null>(null);
   const [config, setConfig] = useState<ConfigurationData | null>(null);
   const [investments, setInvestments] = useState<Investment[]>([]);
   const [results, setResults] = useState<{ ryczalt: TaxResult; liniowy: TaxResult; skala: TaxResult } | null>(null);
+  const [monthlyResults, setMonthlyResults] = useState<{
+    ryczalt: MonthlyCashflowResult;
+    liniowy: MonthlyCashflowResult;
+    skala: MonthlyCashflowResult;
+  } | null>(null);
+  const [projection, setProjection] = useState<ProjectionResult | null>(null);
+  const [breakEven, setBreakEven] = useState<BreakEvenResult | null>(null);
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null);
   const [showCarForm, setShowCarForm] = useState(false);
   const [showEquipmentForm, setShowEquipmentForm] = useState(false);
+  const [editingInvestment, setEditingInvestment] = useState<Investment | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
   const [aiSuggestion, setAiSuggestion] = useState<{ revenue: number; fixedCosts: number } | null>(null);
   const [isLoadingInFakt, setIsLoadingInFakt] = useState(false);
+  const [taxConfig, setTaxConfig] = useState<TaxYearConfigInput | undefined>();
 
   // Load scenario from URL params or localStorage on mount
   useEffect(() => {
@@ -51,6 +117,16 @@ export default function Simulator() {
     }
   }, []);
 
+  // Rates shown in the results come from the same tax year config the calculator uses
+  useEffect(() => {
+    if (!config?.selectedTaxYear) return;
+
+    fetch(`/api/tax-config/${config.selectedTaxYear}`)
+      .then((response) => (response.ok ? response.json() : undefined))
+      .then((data) => setTaxConfig(data as TaxYearConfigInput | undefined))
+      .catch((error) => console.error('Error loading tax config:', error));
+  }, [config?.selectedTaxYear]);
+
   const loadScenario = async (id: string, autoCalculate = false) => {
     try {
       const response = await fetch(`/api/simulation/${id}`);
@@ -62,23 +138,23 @@ export default function Simulator() {
 
         // Reconstruct config from scenario
         const reconstructedConfig: ConfigurationData = {
+          title: data.scenario.title || '',
           yearlyRevenueNetto: data.scenario.yearlyRevenueNetto || 0,
           yearlyFixedCosts: data.scenario.yearlyFixedCosts || 0,
           vatPayer: data.scenario.vatPayer,
           vatRateMixed: data.scenario.vatRateMixed,
           zusType: data.scenario.zusType,
           currentTaxationForm: data.scenario.currentTaxationForm,
-          selectedTaxYear: 2026,
+          formerEmployerServices: data.scenario.formerEmployerServices ?? false,
+          selectedTaxYear: data.scenario.selectedTaxYear || 2026,
+          ryczaltRevenueSplit: data.scenario.ryczaltRevenueSplit || DEFAULT_RYCZALT_REVENUE_SPLIT,
         };
         setConfig(reconstructedConfig);
 
         // Load investments
-        const reconstructedInvestments: Investment[] = data.investments.map((inv: any) => ({
-          id: inv.id,
-          type: inv.type.startsWith('car') ? 'car' : 'equipment',
-          name: inv.name,
-          data: inv,
-        }));
+        const reconstructedInvestments: Investment[] = data.investments.map((inv: any) =>
+          toInvestment(inv, data.carDetails)
+        );
         setInvestments(reconstructedInvestments);
 
         if (autoCalculate && reconstructedConfig.yearlyRevenueNetto > 0) {
@@ -101,6 +177,10 @@ export default function Simulator() {
     setConfig(null);
     setInvestments([]);
     setResults(null);
+    setMonthlyResults(null);
+    setProjection(null);
+    setBreakEven(null);
+    setSensitivity(null);
     localStorage.removeItem('lastScenarioId');
   };
 
@@ -137,12 +217,38 @@ export default function Simulator() {
   };
 
   const handleConfigSubmit = async (configData: ConfigurationData) => {
+    const scenarioBody = {
+      title: configData.title,
+      vatPayer: configData.vatPayer,
+      vatRateMixed: configData.vatRateMixed,
+      zusType: configData.zusType,
+      currentTaxationForm: configData.currentTaxationForm,
+      formerEmployerServices: configData.formerEmployerServices,
+      yearlyRevenueNetto: configData.yearlyRevenueNetto,
+      yearlyFixedCosts: configData.yearlyFixedCosts,
+      selectedTaxYear: configData.selectedTaxYear,
+      ryczaltRevenueSplit: configData.ryczaltRevenueSplit,
+    };
+
     // Create or update scenario
     try {
-      // If scenario already exists, just update config and recalculate
+      // If scenario already exists, save the changes so they are used by the calculation
       if (scenarioId) {
+        const response = await fetch(`/api/simulation/${scenarioId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(scenarioBody),
+        });
+        if (!response.ok) {
+          throw new Error(`Update failed with status ${response.status}`);
+        }
+
         setConfig(configData);
         setResults(null);
+        setMonthlyResults(null);
+        setProjection(null);
+        setBreakEven(null);
+        setSensitivity(null);
         setStep('investments');
         return;
       }
@@ -151,14 +257,7 @@ export default function Simulator() {
       const response = await fetch('/api/simulation/create', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          vatPayer: configData.vatPayer,
-          vatRateMixed: configData.vatRateMixed,
-          zusType: configData.zusType,
-          currentTaxationForm: configData.currentTaxationForm,
-          yearlyRevenueNetto: configData.yearlyRevenueNetto,
-          yearlyFixedCosts: configData.yearlyFixedCosts,
-        }),
+        body: JSON.stringify(scenarioBody),
       });
 
       const data = (await response.json()) as any;
@@ -167,101 +266,278 @@ export default function Simulator() {
       localStorage.setItem('lastScenarioId', data.id);
       setStep('investments');
     } catch (error) {
-      console.error('Failed to create scenario:', error);
-      alert('Nie udało się utworzyć scenariusza. Spróbuj ponownie.');
+      console.error('Failed to save scenario:', error);
+      alert('Nie udało się zapisać scenariusza. Spróbuj ponownie.');
     }
   };
 
-  const handleAddCar = async (carData: CarInvestmentData) => {
+  const saveInvestment = (body: object, investmentId?: string) =>
+    fetch(`/api/simulation/${scenarioId}/investment${investmentId ? `/${investmentId}` : ''}`, {
+      method: investmentId ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  // Replace the edited investment in place or append a new one
+  const upsertInvestment = (investment: Investment) => {
+    setInvestments(
+      investments.some((inv) => inv.id === investment.id)
+        ? investments.map((inv) => (inv.id === investment.id ? investment : inv))
+        : [...investments, investment]
+    );
+  };
+
+  const closeInvestmentForms = () => {
+    setShowCarForm(false);
+    setShowEquipmentForm(false);
+    setEditingInvestment(null);
+  };
+
+  const handleSaveCar = async (carData: CarInvestmentData) => {
     if (!scenarioId) return;
 
     try {
-      const response = await fetch(`/api/simulation/${scenarioId}/investment`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const response = await saveInvestment(
+        {
           name: carData.name,
           costNetto: carData.carPriceNetto,
           monthOfPurchase: carData.monthOfPurchase,
-          type: carData.financingMethod === 'leasing' ? 'car_leasing' : 'car_cash',
+          type:
+            carData.financingMethod === 'leasing' || carData.financingMethod === 'financial_leasing'
+              ? 'car_leasing'
+              : 'car_cash',
           carDetails: carData,
-        }),
-      });
+        },
+        editingInvestment?.id
+      );
 
       const data = (await response.json()) as any;
-      setInvestments([...investments, { id: data.id, type: 'car', name: carData.name, data: carData }]);
-      setShowCarForm(false);
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      upsertInvestment({ id: data.id, type: 'car', name: carData.name, data: carData });
+      closeInvestmentForms();
     } catch (error) {
-      console.error('Failed to add car:', error);
-      alert('Nie udało się dodać samochodu. Spróbuj ponownie.');
+      console.error('Failed to save car:', error);
+      alert('Nie udało się zapisać samochodu. Spróbuj ponownie.');
     }
   };
 
-  const handleAddEquipment = async (equipmentData: EquipmentInvestmentData) => {
+  const handleSaveEquipment = async (equipmentData: EquipmentInvestmentData) => {
     if (!scenarioId) return;
 
     try {
-      const response = await fetch(`/api/simulation/${scenarioId}/investment`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const response = await saveInvestment(
+        {
           name: equipmentData.name,
           costNetto: equipmentData.costNetto,
           monthOfPurchase: equipmentData.monthOfPurchase,
           type: 'equipment',
-        }),
-      });
+          kstGroup: equipmentData.kstGroup,
+          depreciationMethod: equipmentData.depreciationMethod,
+        },
+        editingInvestment?.id
+      );
 
       const data = (await response.json()) as any;
-      setInvestments([...investments, { id: data.id, type: 'equipment', name: equipmentData.name, data: equipmentData }]);
-      setShowEquipmentForm(false);
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      upsertInvestment({ id: data.id, type: 'equipment', name: equipmentData.name, data: equipmentData });
+      closeInvestmentForms();
     } catch (error) {
-      console.error('Failed to add equipment:', error);
-      alert('Nie udało się dodać sprzętu. Spróbuj ponownie.');
+      console.error('Failed to save equipment:', error);
+      alert('Nie udało się zapisać sprzętu. Spróbuj ponownie.');
     }
   };
 
-  const handleCalculateWithConfig = async (configData: ConfigurationData) => {
-    if (!scenarioId) return;
+  const handleCompareCarFinancing = async (carData: CarInvestmentData): Promise<FinancingComparisonResult | null> => {
+    if (!scenarioId || !config) return null;
 
-    setIsCalculating(true);
     try {
-      const response = await fetch(`/api/simulation/${scenarioId}/calculate`, {
+      const response = await fetch(`/api/simulation/${scenarioId}/car-comparison`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          yearlyRevenueNetto: configData.yearlyRevenueNetto,
-          yearlyFixedCosts: configData.yearlyFixedCosts,
-          selectedTaxYear: configData.selectedTaxYear,
+          yearlyRevenueNetto: config.yearlyRevenueNetto,
+          yearlyFixedCosts: config.yearlyFixedCosts,
+          selectedTaxYear: config.selectedTaxYear,
+          car: carData,
         }),
       });
+      if (!response.ok) {
+        throw new Error(`Comparison failed with status ${response.status}`);
+      }
+      return (await response.json()) as FinancingComparisonResult;
+    } catch (error) {
+      console.error('Failed to compare car financing:', error);
+      alert('Nie udało się porównać sposobów finansowania. Spróbuj ponownie.');
+      return null;
+    }
+  };
 
-      const data = (await response.json()) as any;
-      setResults(data);
+  const fetchBreakEven = async (configData: ConfigurationData, axis: BreakEvenAxis) => {
+    const response = await fetch(`/api/simulation/${scenarioId}/break-even`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        yearlyRevenueNetto: configData.yearlyRevenueNetto,
+        yearlyFixedCosts: configData.yearlyFixedCosts,
+        selectedTaxYear: configData.selectedTaxYear,
+        axis,
+      }),
+    });
+    setBreakEven(response.ok ? ((await response.json()) as BreakEvenResult) : null);
+  };
+
+  const handleBreakEvenAxisChange = async (axis: BreakEvenAxis) => {
+    if (!config) return;
+
+    try {
+      await fetchBreakEven(config, axis);
     } catch (error) {
-      console.error('Failed to calculate:', error);
-      alert('Nie udało się obliczyć podatków. Spróbuj ponownie.');
-    } finally {
-      setIsCalculating(false);
+      console.error('Failed to calculate break-even:', error);
+      alert('Nie udało się obliczyć progów opłacalności. Spróbuj ponownie.');
     }
   };
 
-  const handleCalculate = async () => {
-    if (!scenarioId || !config) return;
+  const fetchSensitivity = async (configData: ConfigurationData, percent: number) => {
+    const response = await fetch(`/api/simulation/${scenarioId}/sensitivity`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        yearlyRevenueNetto: configData.yearlyRevenueNetto,
+        yearlyFixedCosts: configData.yearlyFixedCosts,
+        selectedTaxYear: configData.selectedTaxYear,
+        percent,
+      }),
+    });
+    setSensitivity(response.ok ? ((await response.json()) as SensitivityResult) : null);
+  };
+
+  const handleSensitivityPercentChange = async (percent: number) => {
+    if (!config) return;
+
+    try {
+      await fetchSensitivity(config, percent);
+    } catch (error) {
+      console.error('Failed to calculate sensitivity:', error);
+      alert('Nie udało się obliczyć analizy wrażliwości. Spróbuj ponownie.');
+    }
+  };
+
+  const handleRunMonteCarlo = async (options: MonteCarloOptions): Promise<MonteCarloResult | null> => {
+    if (!scenarioId || !config) return null;
 
-    setIsCalculating(true);
     try {
-      const response = await fetch(`/api/simulation/${scenarioId}/calculate`, {
+      const response = await fetch(`/api/simulation/${scenarioId}/monte-carlo`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           yearlyRevenueNetto: config.yearlyRevenueNetto,
           yearlyFixedCosts: config.yearlyFixedCosts,
+          selectedTaxYear: config.selectedTaxYear,
+          ...options,
         }),
       });
+      if (!response.ok) {
+        throw new Error(`Simulation failed with status ${response.status}`);
+      }
+      return (await response.json()) as MonteCarloResult;
+    } catch (error) {
+      console.error('Failed to run Monte Carlo simulation:', error);
+      alert('Nie udało się przeprowadzić symulacji. Sprawdź parametry i spróbuj ponownie.');
+      return null;
+    }
+  };
 
-      const data = (await response.json()) as any;
-      setResults(data);
+  const handleOptimizeTiming = async (investmentId: string): Promise<TimingOptimizationResult | null> => {
+    if (!scenarioId || !config) return null;
+
+    try {
+      const response = await fetch(`/api/simulation/${scenarioId}/timing`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          yearlyRevenueNetto: config.yearlyRevenueNetto,
+          yearlyFixedCosts: config.yearlyFixedCosts,
+          selectedTaxYear: config.selectedTaxYear,
+          investmentId,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Optimization failed with status ${response.status}`);
+      }
+      return (await response.json()) as TimingOptimizationResult;
+    } catch (error) {
+      console.error('Failed to optimize purchase timing:', error);
+      alert('Nie udało się wyznaczyć terminu zakupu. Spróbuj ponownie.');
+      return null;
+    }
+  };
+
+  const fetchCalculation = async (configData: ConfigurationData) => {
+    const requestBody = JSON.stringify({
+      yearlyRevenueNetto: configData.yearlyRevenueNetto,
+      yearlyFixedCosts: configData.yearlyFixedCosts,
+      selectedTaxYear: configData.selectedTaxYear,
+    });
+
+    const [response, monthlyResponse, projectionResponse] = await Promise.all([
+      fetch(`/api/simulation/${scenarioId}/calculate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestBody,
+      }),
+      fetch(`/api/simulation/${scenarioId}/monthly`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestBody,
+      }),
+      fetch(`/api/simulation/${scenarioId}/projection`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestBody,
+      }),
+    ]);
+
+    if (!response.ok) {
+      setResults(null);
+      setMonthlyResults(null);
+      setProjection(null);
+      const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(error ?? `Calculation failed with status ${response.status}`);
+    }
+
+    setResults((await response.json()) as any);
+    setMonthlyResults(monthlyResponse.ok ? ((await monthlyResponse.json()) as any) : null);
+    setProjection(projectionResponse.ok ? ((await projectionResponse.json()) as any) : null);
+    await Promise.all([
+      fetchBreakEven(configData, breakEven?.axis ?? 'revenue'),
+      fetchSensitivity(configData, sensitivity?.percent ?? 10),
+    ]);
+  };
+
+  const handleCalculateWithConfig = async (configData: ConfigurationData) => {
+    if (!scenarioId) return;
+
+    setIsCalculating(true);
+    try {
+      await fetchCalculation(configData);
+    } catch (error) {
+      console.error('Failed to calculate:', error);
+      alert('Nie udało się obliczyć podatków. Spróbuj ponownie.');
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  const handleCalculate = async () => {
+    if (!scenarioId || !config) return;
+
+    setIsCalculating(true);
+    try {
+      await fetchCalculation(config);
       setStep('results');
     } catch (error) {
       console.error('Failed to calculate:', error);
@@ -271,8 +547,28 @@ export default function Simulator() {
     }
   };
 
-  const removeInvestment = (id: string) => {
-    setInvestments(investments.filter((inv) => inv.id !== id));
+  const removeInvestment = async (id: string) => {
+    if (!scenarioId) return;
+
+    try {
+      const response = await fetch(`/api/simulation/${scenarioId}/investment/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(`Delete failed with status ${response.status}`);
+      }
+      setInvestments(investments.filter((inv) => inv.id !== id));
+    } catch (error) {
+      console.error('Failed to remove investment:', error);
+      alert('Nie udało się usunąć inwestycji. Spróbuj ponownie.');
+    }
+  };
+
+  const editInvestment = (investment: Investment) => {
+    setEditingInvestment(investment);
+    if (investment.type === 'car') {
+      setShowCarForm(true);
+    } else {
+      setShowEquipmentForm(true);
+    }
   };
 
   return (
@@ -357,19 +653,27 @@ export default function Simulator() {
                         <div className="text-sm text-gray-400">
                           {inv.type === 'car' ? (
                             <>
-                              Samochód - {(inv.data as CarInvestmentData).engineType.replace('_', ' ')} | {(inv.data as CarInvestmentData).financingMethod === 'leasing' ? 'Leasing' : 'Gotówka'}
+                              Samochód - {(inv.data as CarInvestmentData).engineType.replace('_', ' ')} | {FINANCING_METHOD_LABELS[(inv.data as CarInvestmentData).financingMethod]}
                             </>
                           ) : (
                             <>Sprzęt - {(inv.data as EquipmentInvestmentData).costNetto.toLocaleString('pl-PL')} PLN</>
                           )}
                         </div>
                       </div>
-                      <button
-                        onClick={() => removeInvestment(inv.id)}
-                        className="text-red-400 hover:text-red-300"
-                      >
-                        Usuń
-                      </button>
+                      <div className="flex gap-4">
+                        <button
+                          onClick={() => editInvestment(inv)}
+                          className="text-blue-400 hover:text-blue-300"
+                        >
+                          Edytuj
+                        </button>
+                        <button
+                          onClick={() => removeInvestment(inv.id)}
+                          className="text-red-400 hover:text-red-300"
+                        >
+                          Usuń
+                        </button>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -412,17 +716,25 @@ export default function Simulator() {
               <h2 className="mb-6 text-3xl font-bold">Wyniki porównania podatkowego 2026</h2>
 
               {/* Chart */}
-              <TaxComparisonChart results={results} />
+              <div className={`grid gap-6 ${sensitivity ? 'xl:grid-cols-2' : ''}`}>
+                <TaxComparisonChart results={results} />
+                {sensitivity && (
+                  <div>
+                    <h3 className="mb-2 text-lg font-semibold">Analiza wrażliwości</h3>
+                    <TornadoChart result={sensitivity} onPercentChange={handleSensitivityPercentChange} />
+                  </div>
+                )}
+              </div>
 
               {/* Detailed Cards */}
               <div className="mt-8 grid gap-6 lg:grid-cols-3">
                 <TaxDetailCard
-                  title="Ryczałt"
+                  title={`Ryczałt ${(TaxCalculator.getEffectiveRyczaltRate(config.ryczaltRevenueSplit) * 100).toLocaleString('pl-PL', { maximumFractionDigits: 2 })}%`}
                   result={results.ryczalt}
                   isRecommended={results.ryczalt.netCashInHand === Math.max(results.ryczalt.netCashInHand, results.liniowy.netCashInHand, results.skala.netCashInHand)}
                 />
                 <TaxDetailCard
-                  title="Podatek Liniowy 19%"
+                  title={`Podatek Liniowy ${(TaxCalculator.getLinearTaxRate(taxConfig) * 100).toLocaleString('pl-PL', { maximumFractionDigits: 2 })}%`}
                   result={results.liniowy}
                   isRecommended={results.liniowy.netCashInHand === Math.max(results.ryczalt.netCashInHand, results.liniowy.netCashInHand, results.skala.netCashInHand)}
                 />
@@ -433,6 +745,92 @@ export default function Simulator() {
                 />
               </div>
 
+              {/* Taxation Form Change */}
+              <div className="mt-8">
+                <h3 className="mb-2 text-xl font-bold">Zmiana formy opodatkowania</h3>
+                <TaxationFormAdvisorCard
+                  advice={TaxationFormAdvisor.advise(results, config.currentTaxationForm as TaxationForm, {
+                    taxYear: config.selectedTaxYear,
+                    formerEmployerServices: config.formerEmployerServices,
+                    today: new Date(),
+                  })}
+                />
+              </div>
+
+              {/* Monthly Cash Flow */}
+              {monthlyResults && (
+                <div className="mt-8 rounded-md border border-gray-700 p-4">
+                  <h3 className="mb-2 text-xl font-bold">Przepływy miesięczne</h3>
+                  <p className="mb-4 text-sm text-gray-400">
+                    Gotówka netto narastająco po zaliczkach PIT, ZUS i składce zdrowotnej płaconych co miesiąc
+                  </p>
+                  <MonthlyCashflowChart results={monthlyResults} />
+                  <div className="mt-6">
+                    <MonthlyCashflowTable results={monthlyResults} />
+                  </div>
+                </div>
+              )}
+
+              {/* Multi-year Projection */}
+              {projection && projection.years.length > 1 && (
+                <div className="mt-8 rounded-md border border-gray-700 p-4">
+                  <h3 className="mb-2 text-xl font-bold">
+                    Projekcja {projection.startYear}–{projection.years[projection.years.length - 1].year}
+                  </h3>
+                  <p className="mb-4 text-sm text-gray-400">
+                    Gotówka netto narastająco z uwzględnieniem leasingu i amortyzacji w kolejnych latach
+                  </p>
+                  <ProjectionChart projection={projection} />
+                  <div className="mt-6">
+                    <ProjectionTable projection={projection} />
+                  </div>
+                </div>
+              )}
+
+              {/* End of Leasing */}
+              {projection && projection.leaseEndTimelines.length > 0 && (
+                <div className="mt-8 rounded-md border border-gray-700 p-4">
+                  <h3 className="mb-2 text-xl font-bold">Koniec leasingu</h3>
+                  <p className="mb-4 text-sm text-gray-400">
+                    Wykup i sprzedaż samochodu - skutki podatkowe są ujęte w projekcji wieloletniej
+                  </p>
+                  <LeaseEndTimelineList timelines={projection.leaseEndTimelines} startYear={projection.startYear} />
+                </div>
+              )}
+
+              {/* Break-even Analysis */}
+              {breakEven && (
+                <div className="mt-8 rounded-md border border-gray-700 p-4">
+                  <h3 className="mb-2 text-xl font-bold">Progi opłacalności</h3>
+                  <p className="mb-4 text-sm text-gray-400">
+                    Gotówka netto każdej formy opodatkowania przy innym przychodzie lub kosztach, pozostałe dane bez zmian
+                  </p>
+                  <BreakEvenChart result={breakEven} onAxisChange={handleBreakEvenAxisChange} />
+                </div>
+              )}
+
+              {/* Purchase Timing */}
+              {investments.length > 0 && (
+                <div className="mt-8 rounded-md border border-gray-700 p-4">
+                  <h3 className="mb-2 text-xl font-bold">Najlepszy termin zakupu</h3>
+                  <p className="mb-4 text-sm text-gray-400">
+                    Każdy miesiąc zakupu w poprzednim, tym i następnym roku - start amortyzacji, odliczenie VAT i
+                    limity roku zakupu, ocenione na gotówce netto do pełnego rozliczenia inwestycji
+                  </p>
+                  <TimingOptimizerPanel investments={investments} onRun={handleOptimizeTiming} />
+                </div>
+              )}
+
+              {/* Revenue Uncertainty */}
+              <div className="mt-8 rounded-md border border-gray-700 p-4">
+                <h3 className="mb-2 text-xl font-bold">Niepewność przychodu (Monte Carlo)</h3>
+                <p className="mb-4 text-sm text-gray-400">
+                  Przychód losowany co miesiąc z uwzględnieniem przestojów między kontraktami - rozkład gotówki netto
+                  i szansa, że dana forma opodatkowania wypadnie najlepiej
+                </p>
+                <MonteCarloPanel monthlyRevenue={config.yearlyRevenueNetto / 12} onRun={handleRunMonteCarlo} />
+              </div>
+
               {/* Configuration Summary */}
               <div className="mt-8 rounded-md bg-gray-900/50 p-4">
                 <h3 className="mb-2 font-semibold">Podsumowanie konfiguracji</h3>
@@ -441,6 +839,12 @@ export default function Simulator() {
                   <div>Koszty stałe: {config.yearlyFixedCosts.toLocaleString('pl-PL')} PLN</div>
                   <div>Typ ZUS: {config.zusType}</div>
                   <div>Płatnik VAT: {config.vatPayer ? 'Tak' : 'Nie'}</div>
+                  <div>
+                    Stawki ryczałtu:{' '}
+                    {config.ryczaltRevenueSplit
+                      .map((share) => `${(share.rate * 100).toLocaleString('pl-PL')}% (${share.percent}%)`)
+                      .join(', ')}
+                  </div>
                   <div>Inwestycje: {investments.length}</div>
                 </div>
               </div>
@@ -466,6 +870,10 @@ export default function Simulator() {
                     setConfig(null);
                     setInvestments([]);
                     setResults(null);
+                    setMonthlyResults(null);
+                    setProjection(null);
+                    setBreakEven(null);
+                    setSensitivity(null);
                   }}
                   className="rounded-md border border-blue-600 px-6 py-2 font-semibold text-blue-400 hover:bg-blue-950/50"
                 >
@@ -479,15 +887,20 @@ export default function Simulator() {
         {/* Modals */}
         {showCarForm && (
           <CarInvestmentForm
-            onSubmit={handleAddCar}
-            onCancel={() => setShowCarForm(false)}
+            onSubmit={handleSaveCar}
+            onCancel={closeInvestmentForms}
+            onCompare={handleCompareCarFinancing}
+            taxYear={config?.selectedTaxYear ?? 2026}
+            initialData={editingInvestment?.data as CarInvestmentData | undefined}
           />
         )}
 
         {showEquipmentForm && (
           <EquipmentInvestmentForm
-            onSubmit={handleAddEquipment}
-            onCancel={() => setShowEquipmentForm(false)}
+            onSubmit={handleSaveEquipment}
+            onCancel={closeInvestmentForms}
+            taxYear={config?.selectedTaxYear ?? 2026}
+            initialData={editingInvestment?.data as EquipmentInvestmentData | undefined}
           />
         )}
         </div>
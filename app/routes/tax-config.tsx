@@ -24,6 +24,21 @@ interface TaxYearConfig {
   healthInsuranceRateSkala: number;
   healthInsuranceRateLiniowy: number;
   healthInsuranceLimitLinear: number;
+  healthInsuranceMinBaseRatio: number;
+  taxFreeAllowance: number;
+  taxScaleThreshold: number;
+  taxScaleLowerRate: number;
+  taxScaleUpperRate: number;
+  linearTaxRate: number;
+  carLimitCombustion: number;
+  carLimitLowEmission: number;
+  carLimitElectric: number;
+  carLowEmissionCo2Threshold: number;
+  vatRate: number;
+  carVatMixedDeduction: number;
+  solidarityLevyThreshold: number;
+  solidarityLevyRate: number;
+  deMinimisLimit: number;
   createdAt: number;
   updatedAt: number;
 }
@@ -61,10 +76,25 @@ export default function TaxConfigPage() {
           accidentRate: 0.0167,
           sicknessRate: 0.0245,
           workFundRate: 0.0245,
-          solidarityFundRate: 0.0245,
+          solidarityFundRate: 0.0145,
           healthInsuranceRateSkala: 0.09,
           healthInsuranceRateLiniowy: 0.049,
           healthInsuranceLimitLinear: 11600,
+          healthInsuranceMinBaseRatio: 0.75,
+          taxFreeAllowance: 30000,
+          taxScaleThreshold: 120000,
+          taxScaleLowerRate: 0.12,
+          taxScaleUpperRate: 0.32,
+          linearTaxRate: 0.19,
+          carLimitCombustion: year >= 2026 ? 100000 : 150000,
+          carLimitLowEmission: 150000,
+          carLimitElectric: 225000,
+          carLowEmissionCo2Threshold: 50,
+          vatRate: 0.23,
+          carVatMixedDeduction: 0.5,
+          solidarityLevyThreshold: 1000000,
+          solidarityLevyRate: 0.04,
+          deMinimisLimit: year >= 2026 ? 213000 : 214000,
           createdAt: Date.now(),
           updatedAt: Date.now(),
         });
@@ -99,6 +129,21 @@ export default function TaxConfigPage() {
           healthInsuranceRateSkala: config.healthInsuranceRateSkala,
           healthInsuranceRateLiniowy: config.healthInsuranceRateLiniowy,
           healthInsuranceLimitLinear: config.healthInsuranceLimitLinear,
+          healthInsuranceMinBaseRatio: config.healthInsuranceMinBaseRatio,
+          taxFreeAllowance: config.taxFreeAllowance,
+          taxScaleThreshold: config.taxScaleThreshold,
+          taxScaleLowerRate: config.taxScaleLowerRate,
+          taxScaleUpperRate: config.taxScaleUpperRate,
+          linearTaxRate: config.linearTaxRate,
+          carLimitCombustion: config.carLimitCombustion,
+          carLimitLowEmission: config.carLimitLowEmission,
+          carLimitElectric: config.carLimitElectric,
+          carLowEmissionCo2Threshold: config.carLowEmissionCo2Threshold,
+          vatRate: config.vatRate,
+          carVatMixedDeduction: config.carVatMixedDeduction,
+          solidarityLevyThreshold: config.solidarityLevyThreshold,
+          solidarityLevyRate: config.solidarityLevyRate,
+          deMinimisLimit: config.deMinimisLimit,
         }),
       });
 
@@ -324,7 +369,7 @@ export default function TaxConfigPage() {
               </div>
 
               <div>
-                <label className="mb-2 block text-sm font-medium">Fundusz Solidarnościowy</label>
+                <label className="mb-2 block text-sm font-medium">Fundusz Solidarnościowy (część FP)</label>
                 <div className="flex items-center gap-2">
                   <input
                     type="number"
@@ -383,6 +428,212 @@ export default function TaxConfigPage() {
                 />
                 <p className="mt-1 text-xs text-gray-500">PLN/rok</p>
               </div>
+
+              <div className="md:col-span-2">
+                <label className="mb-2 block text-sm font-medium">
+                  Minimalna podstawa (Skala i Liniowy) - część minimalnego wynagrodzenia
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={config.healthInsuranceMinBaseRatio}
+                    onChange={(e) => handleChange('healthInsuranceMinBaseRatio', e.target.value)}
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  />
+                  <span className="text-gray-500">{(config.healthInsuranceMinBaseRatio * 100).toFixed(0)}%</span>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Minimalna składka: {(config.minimumWageGross * config.healthInsuranceMinBaseRatio * config.healthInsuranceRateSkala).toFixed(2)} PLN/miesiąc
+                  (od 2025 r. 75% minimalnego wynagrodzenia, wcześniej 100%)
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Income Tax Rates */}
+          <div className="space-y-4 rounded-lg border border-gray-700 bg-gray-900/30 p-4">
+            <h3 className="font-semibold text-red-300">Podatek Dochodowy (PIT)</h3>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <label className="mb-2 block text-sm font-medium">Kwota wolna od podatku (Skala)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={config.taxFreeAllowance}
+                  onChange={(e) => handleChange('taxFreeAllowance', e.target.value)}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                />
+                <p className="mt-1 text-xs text-gray-500">PLN/rok</p>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Próg podatkowy (Skala)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={config.taxScaleThreshold}
+                  onChange={(e) => handleChange('taxScaleThreshold', e.target.value)}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                />
+                <p className="mt-1 text-xs text-gray-500">PLN/rok</p>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Stawka do progu (Skala)</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={config.taxScaleLowerRate}
+                    onChange={(e) => handleChange('taxScaleLowerRate', e.target.value)}
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  />
+                  <span className="text-gray-500">{(config.taxScaleLowerRate * 100).toFixed(0)}%</span>
+                </div>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Stawka powyżej progu (Skala)</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={config.taxScaleUpperRate}
+                    onChange={(e) => handleChange('taxScaleUpperRate', e.target.value)}
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  />
+                  <span className="text-gray-500">{(config.taxScaleUpperRate * 100).toFixed(0)}%</span>
+                </div>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Stawka podatku liniowego</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={config.linearTaxRate}
+                    onChange={(e) => handleChange('linearTaxRate', e.target.value)}
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  />
+                  <span className="text-gray-500">{(config.linearTaxRate * 100).toFixed(0)}%</span>
+                </div>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Próg daniny solidarnościowej</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={config.solidarityLevyThreshold}
+                  onChange={(e) => handleChange('solidarityLevyThreshold', e.target.value)}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                />
+                <p className="mt-1 text-xs text-gray-500">PLN/rok (Liniowy i Skala)</p>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Stawka daniny solidarnościowej</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={config.solidarityLevyRate}
+                    onChange={(e) => handleChange('solidarityLevyRate', e.target.value)}
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  />
+                  <span className="text-gray-500">{(config.solidarityLevyRate * 100).toFixed(0)}%</span>
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Kwota zmniejszająca podatek: {(config.taxFreeAllowance * config.taxScaleLowerRate).toFixed(2)} PLN/rok
+            </p>
+          </div>
+
+          {/* Cars & VAT */}
+          <div className="space-y-4 rounded-lg border border-gray-700 bg-gray-900/30 p-4">
+            <h3 className="font-semibold text-blue-300">Samochody i VAT</h3>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <label className="mb-2 block text-sm font-medium">Limit odliczenia - spalinowy</label>
+                <input
+                  type="number"
+                  step="1"
+                  value={config.carLimitCombustion}
+                  onChange={(e) => handleChange('carLimitCombustion', e.target.value)}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                />
+                <p className="mt-1 text-xs text-gray-500">PLN</p>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Limit odliczenia - hybryda plug-in (niskoemisyjna)</label>
+                <input
+                  type="number"
+                  step="1"
+                  value={config.carLimitLowEmission}
+                  onChange={(e) => handleChange('carLimitLowEmission', e.target.value)}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                />
+                <p className="mt-1 text-xs text-gray-500">PLN</p>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Limit odliczenia - elektryczny / wodorowy</label>
+                <input
+                  type="number"
+                  step="1"
+                  value={config.carLimitElectric}
+                  onChange={(e) => handleChange('carLimitElectric', e.target.value)}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                />
+                <p className="mt-1 text-xs text-gray-500">PLN</p>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Próg emisji CO₂ dla hybrydy plug-in</label>
+                <input
+                  type="number"
+                  step="1"
+                  value={config.carLowEmissionCo2Threshold}
+                  onChange={(e) => handleChange('carLowEmissionCo2Threshold', e.target.value)}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                />
+                <p className="mt-1 text-xs text-gray-500">g/km - od tej wartości obowiązuje limit dla spalinowych</p>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Limit amortyzacji jednorazowej (de minimis)</label>
+                <input
+                  type="number"
+                  step="1"
+                  value={config.deMinimisLimit}
+                  onChange={(e) => handleChange('deMinimisLimit', e.target.value)}
+                  className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                />
+                <p className="mt-1 text-xs text-gray-500">PLN/rok (50 000 EUR wg kursu z 1. dnia roboczego października)</p>
+              </div>
+
+              <div>
+                <label className="mb-2 block text-sm font-medium">Stawka VAT</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={config.vatRate}
+                    onChange={(e) => handleChange('vatRate', e.target.value)}
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  />
+                  <span className="text-gray-500">{(config.vatRate * 100).toFixed(0)}%</span>
+                </div>
+              </div>
+              <div>
+                <label className="mb-2 block text-sm font-medium">Odliczenie VAT - samochód mieszany</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={config.carVatMixedDeduction}
+                    onChange={(e) => handleChange('carVatMixedDeduction', e.target.value)}
+                    className="w-full rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  />
+                  <span className="text-gray-500">{(config.carVatMixedDeduction * 100).toFixed(0)}%</span>
+                </div>
+              </div>
             </div>
           </div>
 
@@ -0,0 +1,64 @@
+-- Columns added to the first release schema. New databases get them from 0000 + this migration,
+-- schema.sql describes the resulting schema.
+
+-- Scenarios
+ALTER TABLE scenarios ADD COLUMN former_employer_services BOOLEAN DEFAULT 0;
+ALTER TABLE scenarios ADD COLUMN selected_tax_year INTEGER DEFAULT 2026;
+ALTER TABLE scenarios ADD COLUMN ryczalt_revenue_split TEXT;
+
+-- Investments
+ALTER TABLE investments ADD COLUMN kst_group TEXT;
+ALTER TABLE investments ADD COLUMN depreciation_method TEXT;
+
+-- Car details
+ALTER TABLE car_details ADD COLUMN leasing_interest_rate REAL;
+ALTER TABLE car_details ADD COLUMN leasing_monthly_installment REAL;
+ALTER TABLE car_details ADD COLUMN leasing_fees REAL;
+ALTER TABLE car_details ADD COLUMN leasing_insurance_monthly REAL;
+ALTER TABLE car_details ADD COLUMN co2_emission REAL;
+ALTER TABLE car_details ADD COLUMN fuel_monthly REAL;
+ALTER TABLE car_details ADD COLUMN insurance_yearly REAL;
+ALTER TABLE car_details ADD COLUMN ac_insurance_yearly REAL;
+ALTER TABLE car_details ADD COLUMN service_yearly REAL;
+ALTER TABLE car_details ADD COLUMN tyres_yearly REAL;
+ALTER TABLE car_details ADD COLUMN lease_end_decision TEXT;
+ALTER TABLE car_details ADD COLUMN resale_months_after_buyout INTEGER;
+ALTER TABLE car_details ADD COLUMN resale_price_netto REAL;
+
+-- Tax year configs
+ALTER TABLE tax_year_configs ADD COLUMN health_insurance_min_base_ratio REAL NOT NULL DEFAULT 0.75;
+ALTER TABLE tax_year_configs ADD COLUMN tax_free_allowance REAL NOT NULL DEFAULT 30000;
+ALTER TABLE tax_year_configs ADD COLUMN tax_scale_threshold REAL NOT NULL DEFAULT 120000;
+ALTER TABLE tax_year_configs ADD COLUMN tax_scale_lower_rate REAL NOT NULL DEFAULT 0.12;
+ALTER TABLE tax_year_configs ADD COLUMN tax_scale_upper_rate REAL NOT NULL DEFAULT 0.32;
+ALTER TABLE tax_year_configs ADD COLUMN linear_tax_rate REAL NOT NULL DEFAULT 0.19;
+ALTER TABLE tax_year_configs ADD COLUMN car_limit_combustion REAL NOT NULL DEFAULT 100000;
+ALTER TABLE tax_year_configs ADD COLUMN car_limit_low_emission REAL NOT NULL DEFAULT 150000;
+ALTER TABLE tax_year_configs ADD COLUMN car_limit_electric REAL NOT NULL DEFAULT 225000;
+ALTER TABLE tax_year_configs ADD COLUMN car_low_emission_co2_threshold REAL NOT NULL DEFAULT 50;
+ALTER TABLE tax_year_configs ADD COLUMN vat_rate REAL NOT NULL DEFAULT 0.23;
+ALTER TABLE tax_year_configs ADD COLUMN car_vat_mixed_deduction REAL NOT NULL DEFAULT 0.5;
+ALTER TABLE tax_year_configs ADD COLUMN solidarity_levy_threshold REAL NOT NULL DEFAULT 1000000;
+ALTER TABLE tax_year_configs ADD COLUMN solidarity_levy_rate REAL NOT NULL DEFAULT 0.04;
+ALTER TABLE tax_year_configs ADD COLUMN de_minimis_limit REAL NOT NULL DEFAULT 213000;
+
+-- Saved calculation results
+CREATE TABLE IF NOT EXISTS calculation_runs (
+  id TEXT PRIMARY KEY,
+  scenario_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  engine_version TEXT NOT NULL,
+  tax_year INTEGER NOT NULL,
+  inputs TEXT NOT NULL,
+  tax_year_config TEXT,
+  results TEXT NOT NULL,
+  FOREIGN KEY (scenario_id) REFERENCES scenarios(id) ON DELETE CASCADE
+);
+
+-- Seeded years whose values differ from the column defaults: the 2025 combustion car limit
+-- and de minimis limit
+UPDATE tax_year_configs SET car_limit_combustion = 150000, de_minimis_limit = 214000 WHERE id = 'cfg-2025';
+
+-- The Solidarity Fund is 1.45% out of the 2.45% Labour Fund contribution (FP keeps 1.00%). Every config
+-- still holding the old default, seeded or created by a user, charged it on top of FP
+UPDATE tax_year_configs SET solidarity_fund_rate = 0.0145 WHERE solidarity_fund_rate = 0.0245;
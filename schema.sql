@@ -1,3 +1,6 @@
+-- Full database schema and seed data. Existing databases are upgraded with migrations/,
+-- which run before this file in db:migrate.
+
 -- Stores the user's base configuration
 CREATE TABLE IF NOT EXISTS scenarios (
   id TEXT PRIMARY KEY,
@@ -8,7 +11,10 @@ CREATE TABLE IF NOT EXISTS scenarios (
   vat_payer BOOLEAN DEFAULT 1,
   vat_rate_mixed REAL DEFAULT 1.0,
   zus_type TEXT NOT NULL,
-  current_taxation_form TEXT NOT NULL
+  current_taxation_form TEXT NOT NULL,
+  former_employer_services BOOLEAN DEFAULT 0, -- Services for a former employer exclude liniowy and ryczałt
+  selected_tax_year INTEGER DEFAULT 2026,
+  ryczalt_revenue_split TEXT -- JSON: [{ "rate": 0.12, "percent": 100 }]
 );
 
 -- Stores planned investments attached to a scenario
@@ -19,6 +25,8 @@ CREATE TABLE IF NOT EXISTS investments (
   cost_netto REAL NOT NULL,
   month_of_purchase INTEGER NOT NULL,
   type TEXT NOT NULL,
+  kst_group TEXT,
+  depreciation_method TEXT,
   FOREIGN KEY (scenario_id) REFERENCES scenarios(id) ON DELETE CASCADE
 );
 
@@ -31,6 +39,19 @@ CREATE TABLE IF NOT EXISTS car_details (
   leasing_initial_payment_percent REAL,
   leasing_months INTEGER,
   leasing_buyout_percent REAL,
+  leasing_interest_rate REAL,
+  leasing_monthly_installment REAL,
+  leasing_fees REAL,
+  leasing_insurance_monthly REAL,
+  co2_emission REAL,
+  fuel_monthly REAL,
+  insurance_yearly REAL,
+  ac_insurance_yearly REAL,
+  service_yearly REAL,
+  tyres_yearly REAL,
+  lease_end_decision TEXT, -- 'business_buyout' | 'private_buyout', NULL = car returned
+  resale_months_after_buyout INTEGER,
+  resale_price_netto REAL,
   usage_type TEXT NOT NULL,
   FOREIGN KEY (investment_id) REFERENCES investments(id) ON DELETE CASCADE
 );
@@ -47,10 +68,25 @@ CREATE TABLE IF NOT EXISTS tax_year_configs (
   accident_rate REAL NOT NULL DEFAULT 0.0167,
   sickness_rate REAL NOT NULL DEFAULT 0.0245,
   work_fund_rate REAL NOT NULL DEFAULT 0.0245,
-  solidarity_fund_rate REAL NOT NULL DEFAULT 0.0245,
+  solidarity_fund_rate REAL NOT NULL DEFAULT 0.0145, -- Share of work_fund_rate, not charged on top
   health_insurance_rate_skala REAL NOT NULL DEFAULT 0.09,
   health_insurance_rate_liniowy REAL NOT NULL DEFAULT 0.049,
   health_insurance_limit_linear REAL NOT NULL DEFAULT 11600,
+  health_insurance_min_base_ratio REAL NOT NULL DEFAULT 0.75,
+  tax_free_allowance REAL NOT NULL DEFAULT 30000,
+  tax_scale_threshold REAL NOT NULL DEFAULT 120000,
+  tax_scale_lower_rate REAL NOT NULL DEFAULT 0.12,
+  tax_scale_upper_rate REAL NOT NULL DEFAULT 0.32,
+  linear_tax_rate REAL NOT NULL DEFAULT 0.19,
+  car_limit_combustion REAL NOT NULL DEFAULT 100000,
+  car_limit_low_emission REAL NOT NULL DEFAULT 150000,
+  car_limit_electric REAL NOT NULL DEFAULT 225000,
+  car_low_emission_co2_threshold REAL NOT NULL DEFAULT 50,
+  vat_rate REAL NOT NULL DEFAULT 0.23,
+  car_vat_mixed_deduction REAL NOT NULL DEFAULT 0.5,
+  solidarity_levy_threshold REAL NOT NULL DEFAULT 1000000,
+  solidarity_levy_rate REAL NOT NULL DEFAULT 0.04,
+  de_minimis_limit REAL NOT NULL DEFAULT 213000,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL
 );
@@ -67,9 +103,22 @@ CREATE TABLE IF NOT EXISTS contribution_configs (
   FOREIGN KEY (tax_year_config_id) REFERENCES tax_year_configs(id) ON DELETE CASCADE
 );
 
--- Default tax year configurations for 2025-2028
-INSERT OR IGNORE INTO tax_year_configs (id, year, minimum_wage_gross, average_wage_prognosis, average_wage_q4_previous_year, retirement_rate, disability_rate, accident_rate, sickness_rate, work_fund_rate, solidarity_fund_rate, health_insurance_rate_skala, health_insurance_rate_liniowy, health_insurance_limit_linear, created_at, updated_at) VALUES
-('cfg-2025', 2025, 4388, 7143, 7000, 0.1952, 0.08, 0.0167, 0.0245, 0.0245, 0.0245, 0.09, 0.049, 11300, 1735689600000, 1735689600000),
-('cfg-2026', 2026, 4626, 7286, 7000, 0.1952, 0.08, 0.0167, 0.0245, 0.0245, 0.0245, 0.09, 0.049, 11600, 1767225600000, 1767225600000),
-('cfg-2027', 2027, 4750, 7500, 7286, 0.1952, 0.08, 0.0167, 0.0245, 0.0245, 0.0245, 0.09, 0.049, 11900, 1798761600000, 1798761600000),
-('cfg-2028', 2028, 4900, 7700, 7500, 0.1952, 0.08, 0.0167, 0.0245, 0.0245, 0.0245, 0.09, 0.049, 12200, 1830384000000, 1830384000000);
+-- Saved calculation results with the inputs and tax year config they were computed from
+CREATE TABLE IF NOT EXISTS calculation_runs (
+  id TEXT PRIMARY KEY,
+  scenario_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  engine_version TEXT NOT NULL,
+  tax_year INTEGER NOT NULL,
+  inputs TEXT NOT NULL, -- JSON: scenario config used by the calculator
+  tax_year_config TEXT, -- JSON: tax year config snapshot, NULL = built-in defaults
+  results TEXT NOT NULL, -- JSON: { ryczalt, liniowy, skala } tax results
+  FOREIGN KEY (scenario_id) REFERENCES scenarios(id) ON DELETE CASCADE
+);
+
+-- Default tax year configurations for 2025-2028 (rows seeded earlier are updated by migrations)
+INSERT OR IGNORE INTO tax_year_configs (id, year, minimum_wage_gross, average_wage_prognosis, average_wage_q4_previous_year, retirement_rate, disability_rate, accident_rate, sickness_rate, work_fund_rate, solidarity_fund_rate, health_insurance_rate_skala, health_insurance_rate_liniowy, health_insurance_limit_linear, health_insurance_min_base_ratio, tax_free_allowance, tax_scale_threshold, tax_scale_lower_rate, tax_scale_upper_rate, linear_tax_rate, car_limit_combustion, car_limit_low_emission, car_limit_electric, car_low_emission_co2_threshold, vat_rate, car_vat_mixed_deduction, solidarity_levy_threshold, solidarity_levy_rate, de_minimis_limit, created_at, updated_at) VALUES
+('cfg-2025', 2025, 4388, 7143, 7000, 0.1952, 0.08, 0.0167, 0.0245, 0.0245, 0.0145, 0.09, 0.049, 11300, 0.75, 30000, 120000, 0.12, 0.32, 0.19, 150000, 150000, 225000, 50, 0.23, 0.5, 1000000, 0.04, 214000, 1735689600000, 1735689600000),
+('cfg-2026', 2026, 4626, 7286, 7000, 0.1952, 0.08, 0.0167, 0.0245, 0.0245, 0.0145, 0.09, 0.049, 11600, 0.75, 30000, 120000, 0.12, 0.32, 0.19, 100000, 150000, 225000, 50, 0.23, 0.5, 1000000, 0.04, 213000, 1767225600000, 1767225600000),
+('cfg-2027', 2027, 4750, 7500, 7286, 0.1952, 0.08, 0.0167, 0.0245, 0.0245, 0.0145, 0.09, 0.049, 11900, 0.75, 30000, 120000, 0.12, 0.32, 0.19, 100000, 150000, 225000, 50, 0.23, 0.5, 1000000, 0.04, 213000, 1798761600000, 1798761600000),
+('cfg-2028', 2028, 4900, 7700, 7500, 0.1952, 0.08, 0.0167, 0.0245, 0.0245, 0.0145, 0.09, 0.049, 12200, 0.75, 30000, 120000, 0.12, 0.32, 0.19, 100000, 150000, 225000, 50, 0.23, 0.5, 1000000, 0.04, 213000, 1830384000000, 1830384000000);
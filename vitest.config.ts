@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+// Separate from vite.config.ts: the calculators are tested in plain Node, without the Workers runtime
+export default defineConfig({
+	plugins: [tsconfigPaths()],
+	test: {
+		include: ["app/**/*.test.ts"],
+	},
+});
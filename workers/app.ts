@@ -2,7 +2,17 @@ import { Hono } from "hono";
 import { createRequestHandler } from "react-router";
 import { v4 as uuidv4 } from "uuid";
 import { cors } from "hono/cors";
-import { eq } from "drizzle-orm";
+import { and, desc, eq } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import type { DbClient } from "../app/db/client";
+import type { TaxYearConfig } from "../app/db/schema";
+import type {
+	CarInvestment,
+	EquipmentInvestment,
+	RyczaltRevenueShare,
+	ScenarioConfig,
+	TaxYearConfigInput,
+} from "../app/lib/tax-calculator";
 
 const app = new Hono();
 
@@ -21,11 +31,21 @@ app.post("/api/simulation/create", async (c) => {
 		vatRateMixed: number;
 		zusType: string;
 		currentTaxationForm: string;
+		formerEmployerServices?: boolean;
 		yearlyRevenueNetto?: number;
 		yearlyFixedCosts?: number;
 		title?: string;
+		selectedTaxYear?: number;
+		ryczaltRevenueSplit?: RyczaltRevenueShare[];
 	}>();
 
+	if (body.ryczaltRevenueSplit) {
+		const totalPercent = body.ryczaltRevenueSplit.reduce((sum, share) => sum + share.percent, 0);
+		if (Math.abs(totalPercent - 100) > 0.01) {
+			return c.json({ error: "Ryczałt revenue split must add up to 100%" }, 400);
+		}
+	}
+
 	const scenarioId = uuidv4();
 
 	try {
@@ -43,6 +63,9 @@ app.post("/api/simulation/create", async (c) => {
 			vatRateMixed: body.vatRateMixed,
 			zusType: body.zusType as any,
 			currentTaxationForm: body.currentTaxationForm as any,
+			formerEmployerServices: body.formerEmployerServices ?? false,
+			selectedTaxYear: body.selectedTaxYear || 2026,
+			ryczaltRevenueSplit: body.ryczaltRevenueSplit || null,
 		});
 
 		return c.json({ id: scenarioId, createdAt: Date.now() });
@@ -96,60 +119,273 @@ app.get("/api/simulation/:id", async (c) => {
 	}
 });
 
+/**
+ * PATCH /api/simulation/:id
+ * Update scenario settings, only the fields present in the body are changed
+ */
+app.patch("/api/simulation/:id", async (c) => {
+	const scenarioId = c.req.param("id");
+	const body = await c.req.json<{
+		title?: string | null;
+		yearlyRevenueNetto?: number;
+		yearlyFixedCosts?: number;
+		vatPayer?: boolean;
+		vatRateMixed?: number;
+		zusType?: string;
+		currentTaxationForm?: string;
+		formerEmployerServices?: boolean;
+		selectedTaxYear?: number;
+		ryczaltRevenueSplit?: RyczaltRevenueShare[] | null;
+	}>();
+
+	if (body.ryczaltRevenueSplit) {
+		const totalPercent = body.ryczaltRevenueSplit.reduce((sum, share) => sum + share.percent, 0);
+		if (Math.abs(totalPercent - 100) > 0.01) {
+			return c.json({ error: "Ryczałt revenue split must add up to 100%" }, 400);
+		}
+	}
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const { scenarios } = await import("../app/db/schema");
+		const db = createDbClient(c.env.DB);
+
+		const scenario = await db.select().from(scenarios).where(eq(scenarios.id, scenarioId)).get();
+
+		if (!scenario) {
+			return c.json({ error: "Scenario not found" }, 404);
+		}
+
+		const updated = {
+			title: body.title === undefined ? scenario.title : body.title || null,
+			yearlyRevenueNetto: body.yearlyRevenueNetto ?? scenario.yearlyRevenueNetto,
+			yearlyFixedCosts: body.yearlyFixedCosts ?? scenario.yearlyFixedCosts,
+			vatPayer: body.vatPayer ?? scenario.vatPayer,
+			vatRateMixed: body.vatRateMixed ?? scenario.vatRateMixed,
+			zusType: (body.zusType as any) ?? scenario.zusType,
+			currentTaxationForm: (body.currentTaxationForm as any) ?? scenario.currentTaxationForm,
+			formerEmployerServices: body.formerEmployerServices ?? scenario.formerEmployerServices,
+			selectedTaxYear: body.selectedTaxYear ?? scenario.selectedTaxYear,
+			ryczaltRevenueSplit:
+				body.ryczaltRevenueSplit === undefined ? scenario.ryczaltRevenueSplit : body.ryczaltRevenueSplit,
+		};
+
+		await db.update(scenarios).set(updated).where(eq(scenarios.id, scenarioId));
+
+		return c.json({ ...scenario, ...updated });
+	} catch (error) {
+		console.error("Error updating scenario:", error);
+		return c.json({ error: "Failed to update scenario" }, 500);
+	}
+});
+
+/**
+ * POST /api/simulation/:id/clone
+ * Copy a scenario with all investments and car details in one batch
+ */
+app.post("/api/simulation/:id/clone", async (c) => {
+	const scenarioId = c.req.param("id");
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const { scenarios, investments, carDetails } = await import("../app/db/schema");
+		const db = createDbClient(c.env.DB);
+
+		const scenario = await db.select().from(scenarios).where(eq(scenarios.id, scenarioId)).get();
+
+		if (!scenario) {
+			return c.json({ error: "Scenario not found" }, 404);
+		}
+
+		const investmentsList = await db
+			.select()
+			.from(investments)
+			.where(eq(investments.scenarioId, scenarioId))
+			.all();
+		const carDetailsList = await Promise.all(
+			investmentsList.map((inv) =>
+				db.select().from(carDetails).where(eq(carDetails.investmentId, inv.id)).get(),
+			),
+		);
+
+		const cloneId = uuidv4();
+		const writes: [BatchItem<"sqlite">, ...BatchItem<"sqlite">[]] = [
+			db.insert(scenarios).values({
+				...scenario,
+				id: cloneId,
+				createdAt: new Date(),
+				title: `${scenario.title || "Scenariusz"} (kopia)`,
+			}),
+		];
+
+		investmentsList.forEach((inv, i) => {
+			const investmentId = uuidv4();
+			writes.push(db.insert(investments).values({ ...inv, id: investmentId, scenarioId: cloneId }));
+
+			const carDetail = carDetailsList[i];
+			if (carDetail) {
+				writes.push(db.insert(carDetails).values({ ...carDetail, investmentId }));
+			}
+		});
+
+		// All or nothing: a failed insert leaves no partial copy behind
+		await db.batch(writes);
+
+		return c.json({ id: cloneId, createdAt: Date.now() });
+	} catch (error) {
+		console.error("Error cloning scenario:", error);
+		return c.json({ error: "Failed to clone scenario" }, 500);
+	}
+});
+
+/**
+ * Investment payload of the add and edit endpoints
+ */
+type InvestmentBody = {
+	name: string;
+	costNetto: number;
+	monthOfPurchase: number;
+	type: string;
+	carDetails?: {
+		engineType: string;
+		financingMethod: string;
+		carPriceNetto: number;
+		leasingInitialPaymentPercent?: number;
+		leasingMonths?: number;
+		leasingBuyoutPercent?: number;
+		leasingInterestRate?: number;
+		leasingMonthlyInstallment?: number;
+		leasingFees?: number;
+		leasingInsuranceMonthly?: number;
+		co2Emission?: number;
+		fuelMonthly?: number;
+		insuranceYearly?: number;
+		acInsuranceYearly?: number;
+		serviceYearly?: number;
+		tyresYearly?: number;
+		leaseEndDecision?: string;
+		resaleMonthsAfterBuyout?: number;
+		resalePriceNetto?: number;
+		usageType: string;
+	};
+	kstGroup?: string;
+	depreciationMethod?: "linear" | "degressive" | "one_off";
+};
+
+/**
+ * Validate the offer installment of a financed car and the depreciation settings of equipment,
+ * returns an error message or null
+ */
+async function validateInvestment(body: InvestmentBody): Promise<string | null> {
+	const installment = body.carDetails?.leasingMonthlyInstallment;
+	if (installment !== undefined && installment !== null && !(installment > 0)) {
+		return "Monthly installment must be greater than 0";
+	}
+
+	if (body.type !== "equipment" || (!body.kstGroup && !body.depreciationMethod)) {
+		return null;
+	}
+
+	const { DepreciationCalculator, KST_GROUPS, DEFAULT_EQUIPMENT_KST_GROUP } = await import(
+		"../app/lib/depreciation-calculator"
+	);
+	const kstGroup = KST_GROUPS.find((entry) => entry.group === (body.kstGroup ?? DEFAULT_EQUIPMENT_KST_GROUP));
+	if (!kstGroup) {
+		return "Unknown KŚT group";
+	}
+	if (body.depreciationMethod === "degressive" && !kstGroup.degressiveAllowed) {
+		return "Degressive depreciation is not available for this KŚT group";
+	}
+	if (
+		body.depreciationMethod === "one_off" &&
+		!DepreciationCalculator.isOneOffAllowed({ initialValue: body.costNetto, kstGroup: kstGroup.group })
+	) {
+		return "One-off depreciation is not available for this asset";
+	}
+	return null;
+}
+
+/**
+ * Write the investment row and its car details in one batch; car details are replaced on every save
+ */
+async function saveInvestment(db: DbClient, scenarioId: string, investmentId: string, body: InvestmentBody, isNew: boolean) {
+	const { investments, carDetails } = await import("../app/db/schema");
+
+	const values = {
+		name: body.name,
+		costNetto: body.costNetto,
+		monthOfPurchase: body.monthOfPurchase,
+		type: body.type as any,
+		kstGroup: body.type === "equipment" ? body.kstGroup : null,
+		depreciationMethod: body.type === "equipment" ? body.depreciationMethod : null,
+	};
+
+	const writes: [BatchItem<"sqlite">, ...BatchItem<"sqlite">[]] = isNew
+		? [db.insert(investments).values({ id: investmentId, scenarioId, ...values })]
+		: [
+				db.update(investments).set(values).where(eq(investments.id, investmentId)),
+				db.delete(carDetails).where(eq(carDetails.investmentId, investmentId)),
+			];
+
+	// If it's a car investment, insert car details
+	if (body.carDetails && (body.type === "car_leasing" || body.type === "car_cash")) {
+		const car = body.carDetails;
+		writes.push(db.insert(carDetails).values({
+			investmentId,
+			engineType: car.engineType as any,
+			financingMethod: car.financingMethod as any,
+			carPriceNetto: car.carPriceNetto,
+			leasingInitialPaymentPercent: car.leasingInitialPaymentPercent,
+			leasingMonths: car.leasingMonths,
+			leasingBuyoutPercent: car.leasingBuyoutPercent,
+			leasingInterestRate: car.leasingInterestRate,
+			leasingMonthlyInstallment: car.leasingMonthlyInstallment,
+			leasingFees: car.leasingFees,
+			leasingInsuranceMonthly: car.leasingInsuranceMonthly,
+			co2Emission: car.co2Emission,
+			fuelMonthly: car.fuelMonthly,
+			insuranceYearly: car.insuranceYearly,
+			acInsuranceYearly: car.acInsuranceYearly,
+			serviceYearly: car.serviceYearly,
+			tyresYearly: car.tyresYearly,
+			leaseEndDecision: car.leaseEndDecision as any,
+			resaleMonthsAfterBuyout: car.resaleMonthsAfterBuyout,
+			resalePriceNetto: car.resalePriceNetto,
+			usageType: car.usageType as any,
+		}));
+	}
+
+	await db.batch(writes);
+}
+
 /**
  * POST /api/simulation/:id/investment
  * Add an investment (car or equipment) to a scenario
  */
 app.post("/api/simulation/:id/investment", async (c) => {
 	const scenarioId = c.req.param("id");
-	const body = await c.req.json<{
-		name: string;
-		costNetto: number;
-		monthOfPurchase: number;
-		type: string;
-		carDetails?: {
-			engineType: string;
-			financingMethod: string;
-			carPriceNetto: number;
-			leasingInitialPaymentPercent?: number;
-			leasingMonths?: number;
-			leasingBuyoutPercent?: number;
-			usageType: string;
-		};
-	}>();
+	const body = await c.req.json<InvestmentBody>();
+
+	const validationError = await validateInvestment(body);
+	if (validationError) {
+		return c.json({ error: validationError }, 400);
+	}
 
 	const investmentId = uuidv4();
 
 	try {
 		const { createDbClient } = await import("../app/db/client");
-		const { investments, carDetails } = await import("../app/db/schema");
+		const { scenarios } = await import("../app/db/schema");
 		const db = createDbClient(c.env.DB);
 
-		// Insert investment
-		await db.insert(investments).values({
-			id: investmentId,
-			scenarioId,
-			name: body.name,
-			costNetto: body.costNetto,
-			monthOfPurchase: body.monthOfPurchase,
-			type: body.type as any,
-		});
+		const scenario = await db.select().from(scenarios).where(eq(scenarios.id, scenarioId)).get();
 
-		// If it's a car investment, insert car details
-		if (body.carDetails && (body.type === "car_leasing" || body.type === "car_cash")) {
-			const car = body.carDetails;
-			await db.insert(carDetails).values({
-				investmentId,
-				engineType: car.engineType as any,
-				financingMethod: car.financingMethod as any,
-				carPriceNetto: car.carPriceNetto,
-				leasingInitialPaymentPercent: car.leasingInitialPaymentPercent,
-				leasingMonths: car.leasingMonths,
-				leasingBuyoutPercent: car.leasingBuyoutPercent,
-				usageType: car.usageType as any,
-			});
+		if (!scenario) {
+			return c.json({ error: "Scenario not found" }, 404);
 		}
 
+		await saveInvestment(db, scenarioId, investmentId, body, true);
+
 		return c.json({ id: investmentId });
 	} catch (error) {
 		console.error("Error adding investment:", error);
@@ -157,6 +393,219 @@ app.post("/api/simulation/:id/investment", async (c) => {
 	}
 });
 
+/**
+ * PUT /api/simulation/:id/investment/:investmentId
+ * Update an investment, car details are replaced
+ */
+app.put("/api/simulation/:id/investment/:investmentId", async (c) => {
+	const scenarioId = c.req.param("id");
+	const investmentId = c.req.param("investmentId");
+	const body = await c.req.json<InvestmentBody>();
+
+	const validationError = await validateInvestment(body);
+	if (validationError) {
+		return c.json({ error: validationError }, 400);
+	}
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const { investments } = await import("../app/db/schema");
+		const db = createDbClient(c.env.DB);
+
+		const investment = await db
+			.select()
+			.from(investments)
+			.where(and(eq(investments.id, investmentId), eq(investments.scenarioId, scenarioId)))
+			.get();
+
+		if (!investment) {
+			return c.json({ error: "Investment not found" }, 404);
+		}
+
+		await saveInvestment(db, scenarioId, investmentId, body, false);
+
+		return c.json({ id: investmentId });
+	} catch (error) {
+		console.error("Error updating investment:", error);
+		return c.json({ error: "Failed to update investment" }, 500);
+	}
+});
+
+/**
+ * DELETE /api/simulation/:id/investment/:investmentId
+ * Remove an investment together with its car details
+ */
+app.delete("/api/simulation/:id/investment/:investmentId", async (c) => {
+	const scenarioId = c.req.param("id");
+	const investmentId = c.req.param("investmentId");
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const { investments, carDetails } = await import("../app/db/schema");
+		const db = createDbClient(c.env.DB);
+
+		const investment = await db
+			.select()
+			.from(investments)
+			.where(and(eq(investments.id, investmentId), eq(investments.scenarioId, scenarioId)))
+			.get();
+
+		if (!investment) {
+			return c.json({ error: "Investment not found" }, 404);
+		}
+
+		// D1 does not enforce foreign keys by default, so car details are removed explicitly, in one batch
+		await db.batch([
+			db.delete(carDetails).where(eq(carDetails.investmentId, investmentId)),
+			db.delete(investments).where(eq(investments.id, investmentId)),
+		]);
+
+		return c.json({ success: true });
+	} catch (error) {
+		console.error("Error deleting investment:", error);
+		return c.json({ error: "Failed to delete investment" }, 500);
+	}
+});
+
+/**
+ * Map a tax_year_configs row to the calculator input
+ */
+function toTaxYearConfigInput(record: TaxYearConfig): TaxYearConfigInput {
+	return {
+		year: record.year,
+		minimumWageGross: record.minimumWageGross,
+		averageWagePrognosis: record.averageWagePrognosis,
+		averageWageQ4PreviousYear: record.averageWageQ4PreviousYear,
+		retirementRate: record.retirementRate,
+		disabilityRate: record.disabilityRate,
+		accidentRate: record.accidentRate,
+		sicknessRate: record.sicknessRate,
+		workFundRate: record.workFundRate,
+		solidarityFundRate: record.solidarityFundRate,
+		healthInsuranceRateSkala: record.healthInsuranceRateSkala,
+		healthInsuranceRateLiniowy: record.healthInsuranceRateLiniowy,
+		healthInsuranceLimitLinear: record.healthInsuranceLimitLinear,
+		healthInsuranceMinBaseRatio: record.healthInsuranceMinBaseRatio,
+		taxFreeAllowance: record.taxFreeAllowance,
+		taxScaleThreshold: record.taxScaleThreshold,
+		taxScaleLowerRate: record.taxScaleLowerRate,
+		taxScaleUpperRate: record.taxScaleUpperRate,
+		linearTaxRate: record.linearTaxRate,
+		carLimitCombustion: record.carLimitCombustion,
+		carLimitLowEmission: record.carLimitLowEmission,
+		carLimitElectric: record.carLimitElectric,
+		carLowEmissionCo2Threshold: record.carLowEmissionCo2Threshold,
+		vatRate: record.vatRate,
+		carVatMixedDeduction: record.carVatMixedDeduction,
+		solidarityLevyThreshold: record.solidarityLevyThreshold,
+		solidarityLevyRate: record.solidarityLevyRate,
+		deMinimisLimit: record.deMinimisLimit,
+	};
+}
+
+/**
+ * Build the calculator input for a stored scenario: investments, car details
+ * and the tax year configuration. Revenue, costs and the tax year from the request
+ * take precedence over the ones saved with the scenario. Returns null when the scenario doesn't exist.
+ */
+async function loadScenarioConfig(
+	db: DbClient,
+	scenarioId: string,
+	body: {
+		yearlyRevenueNetto?: number;
+		yearlyFixedCosts?: number;
+		selectedTaxYear?: number;
+	},
+): Promise<(ScenarioConfig & { selectedTaxYear: number }) | null> {
+	const { scenarios, investments, carDetails, taxYearConfigs } = await import("../app/db/schema");
+
+	// Get scenario
+	const scenario = await db.select().from(scenarios).where(eq(scenarios.id, scenarioId)).get();
+
+	if (!scenario) {
+		return null;
+	}
+
+	// Get tax year config if specified
+	const selectedTaxYear = body.selectedTaxYear || scenario.selectedTaxYear || 2026;
+	const configRecord = await db
+		.select()
+		.from(taxYearConfigs)
+		.where(eq(taxYearConfigs.year, selectedTaxYear))
+		.get();
+
+	// Get investments
+	const investmentsList = await db
+		.select()
+		.from(investments)
+		.where(eq(investments.scenarioId, scenarioId))
+		.all();
+
+	// Build car and equipment arrays
+	const carInvestments: CarInvestment[] = [];
+	const equipmentInvestments: EquipmentInvestment[] = [];
+
+	for (const inv of investmentsList) {
+		if (inv.type === "car_leasing" || inv.type === "car_cash") {
+			const carDetail = await db
+				.select()
+				.from(carDetails)
+				.where(eq(carDetails.investmentId, inv.id))
+				.get();
+
+			if (carDetail) {
+				carInvestments.push({
+					id: inv.id,
+					name: inv.name,
+					carPriceNetto: carDetail.carPriceNetto,
+					engineType: carDetail.engineType,
+					financingMethod: carDetail.financingMethod,
+					usageType: carDetail.usageType,
+					leasingInitialPaymentPercent: carDetail.leasingInitialPaymentPercent ?? undefined,
+					leasingMonths: carDetail.leasingMonths || undefined,
+					leasingBuyoutPercent: carDetail.leasingBuyoutPercent ?? undefined,
+					leasingInterestRate: carDetail.leasingInterestRate ?? undefined,
+					leasingMonthlyInstallment: carDetail.leasingMonthlyInstallment ?? undefined,
+					leasingFees: carDetail.leasingFees ?? undefined,
+					leasingInsuranceMonthly: carDetail.leasingInsuranceMonthly ?? undefined,
+					co2Emission: carDetail.co2Emission ?? undefined,
+					fuelMonthly: carDetail.fuelMonthly ?? undefined,
+					insuranceYearly: carDetail.insuranceYearly ?? undefined,
+					acInsuranceYearly: carDetail.acInsuranceYearly ?? undefined,
+					serviceYearly: carDetail.serviceYearly ?? undefined,
+					tyresYearly: carDetail.tyresYearly ?? undefined,
+					leaseEndDecision: carDetail.leaseEndDecision ?? undefined,
+					resaleMonthsAfterBuyout: carDetail.resaleMonthsAfterBuyout ?? undefined,
+					resalePriceNetto: carDetail.resalePriceNetto ?? undefined,
+					monthOfPurchase: inv.monthOfPurchase,
+				});
+			}
+		} else {
+			equipmentInvestments.push({
+				id: inv.id,
+				name: inv.name,
+				costNetto: inv.costNetto,
+				monthOfPurchase: inv.monthOfPurchase,
+				kstGroup: inv.kstGroup ?? undefined,
+				depreciationMethod: inv.depreciationMethod ?? undefined,
+			});
+		}
+	}
+
+	return {
+		yearlyRevenueNetto: body.yearlyRevenueNetto ?? scenario.yearlyRevenueNetto ?? 0,
+		yearlyFixedCosts: body.yearlyFixedCosts ?? scenario.yearlyFixedCosts ?? 0,
+		vatPayer: scenario.vatPayer ?? true,
+		vatRateMixed: scenario.vatRateMixed ?? 1.0,
+		zusType: scenario.zusType,
+		ryczaltRevenueSplit: scenario.ryczaltRevenueSplit ?? undefined,
+		carInvestments,
+		equipmentInvestments,
+		taxYearConfig: configRecord ? toTaxYearConfigInput(configRecord) : undefined,
+		selectedTaxYear,
+	};
+}
+
 /**
  * POST /api/simulation/:id/calculate
  * Calculate tax comparison for a scenario
@@ -171,105 +620,400 @@ app.post("/api/simulation/:id/calculate", async (c) => {
 
 	try {
 		const { createDbClient } = await import("../app/db/client");
-		const { scenarios, investments, carDetails, taxYearConfigs } = await import("../app/db/schema");
 		const db = createDbClient(c.env.DB);
 
-		// Get scenario
-		const scenario = await db.select().from(scenarios).where(eq(scenarios.id, scenarioId)).get();
+		const config = await loadScenarioConfig(db, scenarioId, body);
 
-		if (!scenario) {
+		if (!config) {
 			return c.json({ error: "Scenario not found" }, 404);
 		}
 
-		// Get tax year config if specified
-		const selectedTaxYear = body.selectedTaxYear || 2026;
-		let taxYearConfig = null;
+		// Import TaxCalculator dynamically
+		const { TaxCalculator, ENGINE_VERSION } = await import("../app/lib/tax-calculator");
+		const { calculationRuns } = await import("../app/db/schema");
+
+		const results = TaxCalculator.compareAll(config);
 
-		const configRecord = await db
+		// Keep the run so the result can be reproduced after the tax config changes,
+		// unless nothing changed since the last run
+		const { taxYearConfig, selectedTaxYear, ...inputs } = config;
+		const lastRun = await db
 			.select()
-			.from(taxYearConfigs)
-			.where(eq(taxYearConfigs.year, selectedTaxYear))
+			.from(calculationRuns)
+			.where(eq(calculationRuns.scenarioId, scenarioId))
+			.orderBy(desc(calculationRuns.createdAt))
+			.limit(1)
 			.get();
+		const unchanged =
+			lastRun &&
+			lastRun.engineVersion === ENGINE_VERSION &&
+			lastRun.taxYear === selectedTaxYear &&
+			JSON.stringify(lastRun.inputs) === JSON.stringify(inputs) &&
+			JSON.stringify(lastRun.taxYearConfig) === JSON.stringify(taxYearConfig ?? null);
+
+		if (!unchanged) {
+			await db.insert(calculationRuns).values({
+				id: uuidv4(),
+				scenarioId,
+				createdAt: new Date(),
+				engineVersion: ENGINE_VERSION,
+				taxYear: selectedTaxYear,
+				inputs,
+				taxYearConfig: taxYearConfig ?? null,
+				results,
+			});
+		}
+
+		return c.json(results);
+	} catch (error) {
+		console.error("Error calculating taxes:", error);
+		return c.json({ error: "Failed to calculate taxes", details: String(error) }, 500);
+	}
+});
+
+/**
+ * POST /api/simulation/:id/monthly
+ * Month-by-month cash flow (PIT advances, ZUS, health) for all taxation forms
+ */
+app.post("/api/simulation/:id/monthly", async (c) => {
+	const scenarioId = c.req.param("id");
+	const body = await c.req.json<{
+		yearlyRevenueNetto: number;
+		yearlyFixedCosts: number;
+		selectedTaxYear?: number;
+	}>();
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const db = createDbClient(c.env.DB);
+
+		const config = await loadScenarioConfig(db, scenarioId, body);
 
-		if (configRecord) {
-			taxYearConfig = {
-				year: configRecord.year,
-				minimumWageGross: configRecord.minimumWageGross,
-				averageWagePrognosis: configRecord.averageWagePrognosis,
-				averageWageQ4PreviousYear: configRecord.averageWageQ4PreviousYear,
-				retirementRate: configRecord.retirementRate,
-				disabilityRate: configRecord.disabilityRate,
-				accidentRate: configRecord.accidentRate,
-				sicknessRate: configRecord.sicknessRate,
-				workFundRate: configRecord.workFundRate,
-				solidarityFundRate: configRecord.solidarityFundRate,
-				healthInsuranceRateSkala: configRecord.healthInsuranceRateSkala,
-				healthInsuranceRateLiniowy: configRecord.healthInsuranceRateLiniowy,
-				healthInsuranceLimitLinear: configRecord.healthInsuranceLimitLinear,
-			};
+		if (!config) {
+			return c.json({ error: "Scenario not found" }, 404);
 		}
 
-		// Get investments
-		const investmentsList = await db
-			.select()
-			.from(investments)
-			.where(eq(investments.scenarioId, scenarioId))
-			.all();
+		const { CashflowCalculator } = await import("../app/lib/cashflow-calculator");
 
-		// Build car and equipment arrays
-		const carInvestments = [];
-		const equipmentInvestments = [];
+		const results = CashflowCalculator.simulateAll(config);
 
-		for (const inv of investmentsList) {
-			if (inv.type === "car_leasing" || inv.type === "car_cash") {
-				const carDetail = await db
-					.select()
-					.from(carDetails)
-					.where(eq(carDetails.investmentId, inv.id))
-					.get();
+		return c.json(results);
+	} catch (error) {
+		console.error("Error simulating monthly cash flow:", error);
+		return c.json({ error: "Failed to simulate monthly cash flow", details: String(error) }, 500);
+	}
+});
 
-				if (carDetail) {
-					carInvestments.push({
-						name: inv.name,
-						carPriceNetto: carDetail.carPriceNetto,
-						engineType: carDetail.engineType,
-						financingMethod: carDetail.financingMethod,
-						usageType: carDetail.usageType,
-						leasingInitialPaymentPercent: carDetail.leasingInitialPaymentPercent || undefined,
-						leasingMonths: carDetail.leasingMonths || undefined,
-						leasingBuyoutPercent: carDetail.leasingBuyoutPercent || undefined,
-						monthOfPurchase: inv.monthOfPurchase,
-					});
-				}
-			} else {
-				equipmentInvestments.push({
-					name: inv.name,
-					costNetto: inv.costNetto,
-					monthOfPurchase: inv.monthOfPurchase,
-				});
-			}
+/**
+ * POST /api/simulation/:id/projection
+ * Multi-year projection (e.g. 2026-2030) with per-year tax configs and carried-over depreciation
+ */
+app.post("/api/simulation/:id/projection", async (c) => {
+	const scenarioId = c.req.param("id");
+	const body = await c.req.json<{
+		yearlyRevenueNetto: number;
+		yearlyFixedCosts: number;
+		selectedTaxYear?: number;
+		years?: number;
+	}>();
+
+	const years = body.years ?? 5;
+	if (!Number.isInteger(years) || years < 1 || years > 10) {
+		return c.json({ error: "Projection must span 1-10 years" }, 400);
+	}
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const { taxYearConfigs } = await import("../app/db/schema");
+		const db = createDbClient(c.env.DB);
+
+		const config = await loadScenarioConfig(db, scenarioId, body);
+
+		if (!config) {
+			return c.json({ error: "Scenario not found" }, 404);
 		}
 
-		// Import TaxCalculator dynamically
-		const { TaxCalculator } = await import("../app/lib/tax-calculator");
+		const configRecords = await db.select().from(taxYearConfigs).all();
 
-		const config = {
-			yearlyRevenueNetto: body.yearlyRevenueNetto,
-			yearlyFixedCosts: body.yearlyFixedCosts,
-			vatPayer: scenario.vatPayer ?? true,
-			vatRateMixed: scenario.vatRateMixed ?? 1.0,
-			zusType: scenario.zusType,
-			carInvestments,
-			equipmentInvestments,
-			taxYearConfig: taxYearConfig || undefined,
-		};
+		const { ProjectionCalculator } = await import("../app/lib/projection-calculator");
 
-		const results = TaxCalculator.compareAll(config);
+		const results = ProjectionCalculator.project(
+			config,
+			config.selectedTaxYear,
+			years,
+			configRecords.map(toTaxYearConfigInput),
+		);
 
 		return c.json(results);
 	} catch (error) {
-		console.error("Error calculating taxes:", error);
-		return c.json({ error: "Failed to calculate taxes", details: String(error) }, 500);
+		console.error("Error calculating projection:", error);
+		return c.json({ error: "Failed to calculate projection", details: String(error) }, 500);
+	}
+});
+
+/**
+ * POST /api/simulation/:id/break-even
+ * Sweep yearly revenue or fixed costs and find where taxation forms overtake each other
+ */
+app.post("/api/simulation/:id/break-even", async (c) => {
+	const scenarioId = c.req.param("id");
+	const body = await c.req.json<{
+		yearlyRevenueNetto: number;
+		yearlyFixedCosts: number;
+		selectedTaxYear?: number;
+		axis?: "revenue" | "costs";
+		from?: number;
+		to?: number;
+		steps?: number;
+	}>();
+
+	const axis = body.axis ?? "revenue";
+	const steps = body.steps ?? 50;
+	if (axis !== "revenue" && axis !== "costs") {
+		return c.json({ error: "Axis must be revenue or costs" }, 400);
+	}
+	if (!Number.isInteger(steps) || steps < 2 || steps > 200) {
+		return c.json({ error: "Sweep must have 2-200 steps" }, 400);
+	}
+
+	// Default range around the current point: revenue x0.25-x3, costs 0-80% of revenue
+	const revenue = body.yearlyRevenueNetto || 0;
+	const from = body.from ?? (axis === "revenue" ? revenue * 0.25 : 0);
+	const to = body.to ?? (axis === "revenue" ? Math.max(revenue * 3, 300_000) : revenue * 0.8);
+	if (!(from >= 0) || !(to > from)) {
+		return c.json({ error: "Range must be non-negative with from < to" }, 400);
+	}
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const db = createDbClient(c.env.DB);
+
+		const config = await loadScenarioConfig(db, scenarioId, body);
+
+		if (!config) {
+			return c.json({ error: "Scenario not found" }, 404);
+		}
+
+		const { BreakEvenCalculator } = await import("../app/lib/break-even-calculator");
+
+		const results = BreakEvenCalculator.sweep(config, axis, from, to, steps);
+
+		return c.json(results);
+	} catch (error) {
+		console.error("Error calculating break-even:", error);
+		return c.json({ error: "Failed to calculate break-even", details: String(error) }, 500);
+	}
+});
+
+/**
+ * POST /api/simulation/:id/sensitivity
+ * Net cash change of every taxation form with each input moved by ±percent
+ */
+app.post("/api/simulation/:id/sensitivity", async (c) => {
+	const scenarioId = c.req.param("id");
+	const body = await c.req.json<{
+		yearlyRevenueNetto: number;
+		yearlyFixedCosts: number;
+		selectedTaxYear?: number;
+		percent?: number;
+	}>();
+
+	const percent = body.percent ?? 10;
+	if (!(percent > 0 && percent <= 50)) {
+		return c.json({ error: "Percent must be between 0 and 50" }, 400);
+	}
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const db = createDbClient(c.env.DB);
+
+		const config = await loadScenarioConfig(db, scenarioId, body);
+
+		if (!config) {
+			return c.json({ error: "Scenario not found" }, 404);
+		}
+
+		const { SensitivityCalculator } = await import("../app/lib/sensitivity-calculator");
+
+		const results = SensitivityCalculator.analyze(config, percent);
+
+		return c.json(results);
+	} catch (error) {
+		console.error("Error calculating sensitivity:", error);
+		return c.json({ error: "Failed to calculate sensitivity", details: String(error) }, 500);
+	}
+});
+
+/**
+ * POST /api/simulation/:id/monte-carlo
+ * Seeded simulation of uncertain monthly revenue: net cash percentiles and win probability per form
+ */
+app.post("/api/simulation/:id/monte-carlo", async (c) => {
+	const scenarioId = c.req.param("id");
+	const body = await c.req.json<{
+		yearlyRevenueNetto: number;
+		yearlyFixedCosts: number;
+		selectedTaxYear?: number;
+		monthlyRevenueMean?: number;
+		monthlyRevenueStdev?: number;
+		idleMonths?: number;
+		idleMonthsProbability?: number;
+		runs?: number;
+		seed?: number;
+	}>();
+
+	// Defaults: the configured revenue spread evenly with 15% deviation and one idle month every other year
+	const monthlyRevenueMean = body.monthlyRevenueMean ?? (body.yearlyRevenueNetto || 0) / 12;
+	const monthlyRevenueStdev = body.monthlyRevenueStdev ?? monthlyRevenueMean * 0.15;
+	const idleMonths = body.idleMonths ?? 1;
+	const idleMonthsProbability = body.idleMonthsProbability ?? 0.5;
+	const runs = body.runs ?? 1000;
+	const seed = body.seed ?? 1;
+
+	if (!(monthlyRevenueMean >= 0) || !(monthlyRevenueStdev >= 0)) {
+		return c.json({ error: "Revenue mean and deviation must be non-negative" }, 400);
+	}
+	if (!Number.isInteger(idleMonths) || idleMonths < 0 || idleMonths > 11) {
+		return c.json({ error: "Idle months must be an integer between 0 and 11" }, 400);
+	}
+	if (!(idleMonthsProbability >= 0 && idleMonthsProbability <= 1)) {
+		return c.json({ error: "Idle months probability must be between 0 and 1" }, 400);
+	}
+	if (!Number.isInteger(runs) || runs < 1 || runs > 5000) {
+		return c.json({ error: "Simulation must have 1-5000 runs" }, 400);
+	}
+	if (!Number.isInteger(seed)) {
+		return c.json({ error: "Seed must be an integer" }, 400);
+	}
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const db = createDbClient(c.env.DB);
+
+		const config = await loadScenarioConfig(db, scenarioId, body);
+
+		if (!config) {
+			return c.json({ error: "Scenario not found" }, 404);
+		}
+
+		const { MonteCarloCalculator } = await import("../app/lib/monte-carlo-calculator");
+
+		const results = MonteCarloCalculator.simulate(config, {
+			monthlyRevenueMean,
+			monthlyRevenueStdev,
+			idleMonths,
+			idleMonthsProbability,
+			runs,
+			seed,
+		});
+
+		return c.json(results);
+	} catch (error) {
+		console.error("Error running Monte Carlo simulation:", error);
+		return c.json({ error: "Failed to run Monte Carlo simulation", details: String(error) }, 500);
+	}
+});
+
+/**
+ * POST /api/simulation/:id/timing
+ * Find the purchase month of an investment, from the previous year to the next, with the most multi-year net cash
+ */
+app.post("/api/simulation/:id/timing", async (c) => {
+	const scenarioId = c.req.param("id");
+	const body = await c.req.json<{
+		yearlyRevenueNetto: number;
+		yearlyFixedCosts: number;
+		selectedTaxYear?: number;
+		investmentId: string;
+		years?: number;
+	}>();
+
+	if (!body.investmentId) {
+		return c.json({ error: "Investment ID is required" }, 400);
+	}
+
+	const years = body.years ?? 5;
+	if (!Number.isInteger(years) || years < 2 || years > 10) {
+		return c.json({ error: "Projection must span 2-10 years" }, 400);
+	}
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const { taxYearConfigs } = await import("../app/db/schema");
+		const db = createDbClient(c.env.DB);
+
+		const config = await loadScenarioConfig(db, scenarioId, body);
+
+		if (!config) {
+			return c.json({ error: "Scenario not found" }, 404);
+		}
+
+		const configRecords = await db.select().from(taxYearConfigs).all();
+
+		const { TimingOptimizer } = await import("../app/lib/timing-optimizer");
+
+		const results = TimingOptimizer.optimize(
+			config,
+			body.investmentId,
+			config.selectedTaxYear,
+			years,
+			configRecords.map(toTaxYearConfigInput),
+		);
+
+		if (!results) {
+			return c.json({ error: "Investment not found" }, 404);
+		}
+
+		return c.json(results);
+	} catch (error) {
+		console.error("Error optimizing purchase timing:", error);
+		return c.json({ error: "Failed to optimize purchase timing", details: String(error) }, 500);
+	}
+});
+
+/**
+ * POST /api/simulation/:id/car-comparison
+ * Compare cash, operating leasing, financial leasing and a loan for a single car
+ */
+app.post("/api/simulation/:id/car-comparison", async (c) => {
+	const scenarioId = c.req.param("id");
+	const body = await c.req.json<{
+		yearlyRevenueNetto: number;
+		yearlyFixedCosts: number;
+		selectedTaxYear?: number;
+		car: CarInvestment;
+	}>();
+
+	if (!body.car || !(body.car.carPriceNetto > 0)) {
+		return c.json({ error: "Car price is required" }, 400);
+	}
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const { taxYearConfigs } = await import("../app/db/schema");
+		const db = createDbClient(c.env.DB);
+
+		const config = await loadScenarioConfig(db, scenarioId, body);
+
+		if (!config) {
+			return c.json({ error: "Scenario not found" }, 404);
+		}
+
+		const configRecords = await db.select().from(taxYearConfigs).all();
+
+		const { CarFinancingCalculator } = await import("../app/lib/car-financing-calculator");
+
+		const results = CarFinancingCalculator.compare(
+			config,
+			body.car,
+			config.selectedTaxYear,
+			configRecords.map(toTaxYearConfigInput),
+		);
+
+		return c.json(results);
+	} catch (error) {
+		console.error("Error comparing car financing:", error);
+		return c.json({ error: "Failed to compare car financing", details: String(error) }, 500);
 	}
 });
 
@@ -367,7 +1111,8 @@ After fetching the data, provide your analysis in the required JSON format.`,
 app.get("/api/simulations", async (c) => {
 	try {
 		const { createDbClient } = await import("../app/db/client");
-		const { scenarios, investments } = await import("../app/db/schema");
+		const { scenarios, investments, calculationRuns, taxYearConfigs } = await import("../app/db/schema");
+		const { ENGINE_VERSION } = await import("../app/lib/tax-calculator");
 		const db = createDbClient(c.env.DB);
 
 		// Get all scenarios sorted by creation date (newest first)
@@ -376,7 +1121,9 @@ app.get("/api/simulations", async (c) => {
 			.from(scenarios)
 			.all();
 
-		// Enrich scenarios with investment counts
+		const configRecords = await db.select().from(taxYearConfigs).all();
+
+		// Enrich scenarios with investment counts and the last saved result
 		const enrichedScenarios = await Promise.all(
 			allScenarios.map(async (scenario) => {
 				const investmentsList = await db
@@ -385,10 +1132,34 @@ app.get("/api/simulations", async (c) => {
 					.where(eq(investments.scenarioId, scenario.id))
 					.all();
 
+				const lastRun = await db
+					.select()
+					.from(calculationRuns)
+					.where(eq(calculationRuns.scenarioId, scenario.id))
+					.orderBy(desc(calculationRuns.createdAt))
+					.limit(1)
+					.get();
+
+				const currentConfig = configRecords.find((record) => record.year === lastRun?.taxYear);
+
 				return {
 					...scenario,
 					investmentCount: investmentsList.length,
 					investments: investmentsList,
+					lastRun: lastRun && {
+						createdAt: lastRun.createdAt,
+						engineVersion: lastRun.engineVersion,
+						taxYear: lastRun.taxYear,
+						netCashInHand: {
+							ryczalt: lastRun.results.ryczalt.netCashInHand,
+							liniowy: lastRun.results.liniowy.netCashInHand,
+							skala: lastRun.results.skala.netCashInHand,
+						},
+						configChanged:
+							lastRun.engineVersion !== ENGINE_VERSION ||
+							JSON.stringify(lastRun.taxYearConfig) !==
+								JSON.stringify(currentConfig ? toTaxYearConfigInput(currentConfig) : null),
+					},
 				};
 			}),
 		);
@@ -403,6 +1174,42 @@ app.get("/api/simulations", async (c) => {
 	}
 });
 
+/**
+ * GET /api/simulations/compare?ids=a,b
+ * Tax comparison of 2-4 scenarios calculated from their saved settings
+ */
+app.get("/api/simulations/compare", async (c) => {
+	const ids = (c.req.query("ids") ?? "").split(",").filter(Boolean);
+
+	if (ids.length < 2 || ids.length > 4) {
+		return c.json({ error: "Select 2-4 scenarios to compare" }, 400);
+	}
+
+	try {
+		const { createDbClient } = await import("../app/db/client");
+		const { scenarios } = await import("../app/db/schema");
+		const { TaxCalculator } = await import("../app/lib/tax-calculator");
+		const db = createDbClient(c.env.DB);
+
+		const comparison = [];
+		for (const id of ids) {
+			const scenario = await db.select().from(scenarios).where(eq(scenarios.id, id)).get();
+			const config = await loadScenarioConfig(db, id, {});
+
+			if (!scenario || !config) {
+				return c.json({ error: "Scenario not found", id }, 404);
+			}
+
+			comparison.push({ scenario, results: TaxCalculator.compareAll(config) });
+		}
+
+		return c.json(comparison);
+	} catch (error) {
+		console.error("Error comparing scenarios:", error);
+		return c.json({ error: "Failed to compare scenarios", details: String(error) }, 500);
+	}
+});
+
 /**
  * GET /api/tax-config/:year
  * Get tax year configuration
@@ -470,6 +1277,21 @@ app.post("/api/tax-config", async (c) => {
 					healthInsuranceRateSkala: body.healthInsuranceRateSkala,
 					healthInsuranceRateLiniowy: body.healthInsuranceRateLiniowy,
 					healthInsuranceLimitLinear: body.healthInsuranceLimitLinear,
+					healthInsuranceMinBaseRatio: body.healthInsuranceMinBaseRatio,
+					taxFreeAllowance: body.taxFreeAllowance,
+					taxScaleThreshold: body.taxScaleThreshold,
+					taxScaleLowerRate: body.taxScaleLowerRate,
+					taxScaleUpperRate: body.taxScaleUpperRate,
+					linearTaxRate: body.linearTaxRate,
+					carLimitCombustion: body.carLimitCombustion,
+					carLimitLowEmission: body.carLimitLowEmission,
+					carLimitElectric: body.carLimitElectric,
+					carLowEmissionCo2Threshold: body.carLowEmissionCo2Threshold,
+					vatRate: body.vatRate,
+					carVatMixedDeduction: body.carVatMixedDeduction,
+					solidarityLevyThreshold: body.solidarityLevyThreshold,
+					solidarityLevyRate: body.solidarityLevyRate,
+					deMinimisLimit: body.deMinimisLimit,
 					updatedAt: now,
 				})
 				.where(eq(taxYearConfigs.year, body.year));
@@ -489,10 +1311,25 @@ app.post("/api/tax-config", async (c) => {
 				accidentRate: body.accidentRate ?? 0.0167,
 				sicknessRate: body.sicknessRate ?? 0.0245,
 				workFundRate: body.workFundRate ?? 0.0245,
-				solidarityFundRate: body.solidarityFundRate ?? 0.0245,
+				solidarityFundRate: body.solidarityFundRate ?? 0.0145,
 				healthInsuranceRateSkala: body.healthInsuranceRateSkala ?? 0.09,
 				healthInsuranceRateLiniowy: body.healthInsuranceRateLiniowy ?? 0.049,
 				healthInsuranceLimitLinear: body.healthInsuranceLimitLinear ?? 11_600,
+				healthInsuranceMinBaseRatio: body.healthInsuranceMinBaseRatio ?? 0.75,
+				taxFreeAllowance: body.taxFreeAllowance ?? 30_000,
+				taxScaleThreshold: body.taxScaleThreshold ?? 120_000,
+				taxScaleLowerRate: body.taxScaleLowerRate ?? 0.12,
+				taxScaleUpperRate: body.taxScaleUpperRate ?? 0.32,
+				linearTaxRate: body.linearTaxRate ?? 0.19,
+				carLimitCombustion: body.carLimitCombustion ?? 100_000,
+				carLimitLowEmission: body.carLimitLowEmission ?? 150_000,
+				carLimitElectric: body.carLimitElectric ?? 225_000,
+				carLowEmissionCo2Threshold: body.carLowEmissionCo2Threshold ?? 50,
+				vatRate: body.vatRate ?? 0.23,
+				carVatMixedDeduction: body.carVatMixedDeduction ?? 0.5,
+				solidarityLevyThreshold: body.solidarityLevyThreshold ?? 1_000_000,
+				solidarityLevyRate: body.solidarityLevyRate ?? 0.04,
+				deMinimisLimit: body.deMinimisLimit ?? 213_000,
 				createdAt: now,
 				updatedAt: now,
 			});